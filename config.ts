@@ -18,6 +18,9 @@ interface Config {
     serverUrl: string;
   };
   isProduction: boolean;
+  storage: {
+    gamesFile: string;
+  };
   socket: {
     cors: {
       origin: string;
@@ -68,6 +71,11 @@ const config: Config = {
   // Development vs Production
   isProduction: process.env.NODE_ENV === 'production',
   
+  // Finished online games are archived here
+  storage: {
+    gamesFile: path.resolve(process.env.GAMES_FILE || path.join(process.cwd(), 'data', 'games.json'))
+  },
+  
   // Socket.IO configuration
   socket: {
     cors: {
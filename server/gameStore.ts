@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2';
+
+// A finished online game as kept in the archive
+export interface GameRecord {
+  id: string;
+  roomCode: string;
+  white: string;
+  black: string;
+  timeControl: { initial: number; increment: number };
+  result: GameResult;
+  reason: string;
+  pgn: string;
+  moves: string[];
+  moveTimestamps: number[];
+  startedAt: string;
+  endedAt: string;
+}
+
+export type GameSummary = Omit<GameRecord, 'pgn' | 'moves' | 'moveTimestamps'> & { moveCount: number };
+
+export interface GameListOptions {
+  limit?: number;
+  offset?: number;
+  player?: string;
+}
+
+// Storage for finished games; swap the implementation without touching the socket handlers
+export interface GameRepository {
+  save(record: GameRecord): Promise<void>;
+  list(options?: GameListOptions): Promise<GameSummary[]>;
+  findById(id: string): Promise<GameRecord | null>;
+}
+
+export const toSummary = ({ pgn, moves, moveTimestamps, ...summary }: GameRecord): GameSummary => ({
+  ...summary,
+  moveCount: moves.length
+});
+
+// Keeps every game in a single JSON file, newest first
+export class JsonFileGameRepository implements GameRepository {
+  // The one read of the file, shared by every caller that arrives before it finishes
+  private loading: Promise<GameRecord[]> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async readGames(): Promise<GameRecord[]> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return [];
+    }
+  }
+
+  private load(): Promise<GameRecord[]> {
+    if (!this.loading) {
+      // A failed read is not cached, so the next call tries again
+      this.loading = this.readGames().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  // Writes are chained so concurrent saves never interleave; the rename keeps the file whole
+  private persist(games: GameRecord[]): Promise<void> {
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(games, null, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.pendingWrite;
+  }
+
+  async save(record: GameRecord): Promise<void> {
+    const games = await this.load();
+    games.unshift(record);
+    await this.persist(games);
+  }
+
+  async list({ limit = 20, offset = 0, player }: GameListOptions = {}): Promise<GameSummary[]> {
+    const games = await this.load();
+    const needle = player?.toLowerCase();
+    return games
+      .filter(game => !needle || game.white.toLowerCase() === needle || game.black.toLowerCase() === needle)
+      .slice(offset, offset + limit)
+      .map(toSummary);
+  }
+
+  async findById(id: string): Promise<GameRecord | null> {
+    const games = await this.load();
+    return games.find(game => game.id === id) ?? null;
+  }
+}
@@ -2,70 +2,779 @@ import express = require('express');
 import * as http from 'http';
 import { Server } from 'socket.io';
 import cors = require('cors');
-import { Chess } from 'chess.js';
+import { Chess, DEFAULT_POSITION, validateFen } from 'chess.js';
+import { randomUUID } from 'crypto';
 import config from '../config';
+import { GameRepository, GameResult, JsonFileGameRepository } from './gameStore';
 
 const app = express();
 app.use(cors());
 
+const gameRepository: GameRepository = new JsonFileGameRepository(config.storage.gamesFile);
+
+app.get('/api/games', async (req, res) => {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '20'), 10) || 20, 1), 100);
+  const offset = Math.max(parseInt(String(req.query.offset ?? '0'), 10) || 0, 0);
+  const player = typeof req.query.player === 'string' ? req.query.player : undefined;
+  res.json(await gameRepository.list({ limit, offset, player }));
+});
+
+app.get('/api/games/:id', async (req, res) => {
+  const record = await gameRepository.findById(req.params.id);
+  if (!record) {
+    res.status(404).json({ message: 'Game not found' });
+    return;
+  }
+  res.json(record);
+});
+
+app.get('/api/games/:id/pgn', async (req, res) => {
+  const record = await gameRepository.findById(req.params.id);
+  if (!record) {
+    res.status(404).json({ message: 'Game not found' });
+    return;
+  }
+  res.type('application/x-chess-pgn');
+  res.attachment(`chessspace-${record.id}.pgn`);
+  res.send(record.pgn);
+});
+
 const server = http.createServer(app);
 const io = new Server(server, {
   cors: config.socket.cors,
   transports: ['polling', 'websocket']
 });
 
-const rooms: { [key: string]: { 
-  players: { [socketId: string]: { color: 'white' | 'black', name: string } }, 
-  game: any,
-  gameState: 'waiting' | 'playing' | 'finished'
-} } = {};
+type PlayerColor = 'white' | 'black';
+
+// Time control in seconds, as chosen by the room creator
+interface TimeControl {
+  initial: number;
+  increment: number;
+}
+
+// Remaining time in milliseconds; turnStartedAt is set while a clock is running
+interface GameClock {
+  white: number;
+  black: number;
+  turnStartedAt: number | null;
+}
+
+// A seat keeps its token across reconnects; disconnectTimer runs while the seat is held
+interface RoomPlayer {
+  color: PlayerColor;
+  name: string;
+  seatToken: string;
+  connected: boolean;
+  disconnectTimer: NodeJS.Timeout | null;
+}
+
+interface ChatMessage {
+  id: string;
+  sender: string;
+  role: PlayerColor | 'spectator';
+  text: string;
+  timestamp: number;
+}
+
+interface Room {
+  players: { [socketId: string]: RoomPlayer };
+  // Read-only watchers; they are in the Socket.IO room but can never move
+  spectators: { [socketId: string]: { name: string } };
+  game: any;
+  // Every game in the room, rematches included, starts from here
+  startFen: string;
+  gameState: 'waiting' | 'playing' | 'finished';
+  // Why the last game ended, for players and spectators who arrive after game_ended
+  endReason: string | null;
+  timeControl: TimeControl;
+  clock: GameClock;
+  moveTimestamps: number[];
+  flagTimer: NodeJS.Timeout | null;
+  startedAt: number | null;
+  // Socket id of the player whose draw offer is waiting for an answer; any new move cancels it
+  drawOfferedBy: string | null;
+  // Socket id of the player waiting for an answer to their rematch offer
+  rematchOfferedBy: string | null;
+  // Socket id of the player asking to take their last move back; any new move cancels it
+  takebackRequestedBy: string | null;
+  chat: ChatMessage[];
+}
+
+const DEFAULT_TIME_CONTROL: TimeControl = { initial: 600, increment: 0 };
+
+// How long a disconnected player's seat is held before they forfeit it
+const RECONNECT_GRACE_PERIOD = 60 * 1000;
+
+const rooms: { [key: string]: Room } = {};
+
+const CHAT_HISTORY_LIMIT = 50;
+const CHAT_MESSAGE_MAX_LENGTH = 200;
+// At most CHAT_RATE_LIMIT messages per socket within CHAT_RATE_WINDOW
+const CHAT_RATE_LIMIT = 5;
+const CHAT_RATE_WINDOW = 10 * 1000;
+
+const chatTimestamps: { [socketId: string]: number[] } = {};
+
+const createPlayer = (color: PlayerColor, name: string): RoomPlayer => ({
+  color,
+  name,
+  seatToken: randomUUID(),
+  connected: true,
+  disconnectTimer: null
+});
+
+// Set up an empty room under a fresh 4-digit code and return the code
+const createRoom = (timeControl: TimeControl, startFen: string = DEFAULT_POSITION): string => {
+  let roomId: string;
+  do {
+    roomId = Math.floor(1000 + Math.random() * 9000).toString();
+  } while (rooms[roomId]);
+  rooms[roomId] = {
+    players: {},
+    spectators: {},
+    game: new Chess(startFen),
+    startFen,
+    gameState: 'waiting',
+    endReason: null,
+    timeControl,
+    clock: {
+      white: timeControl.initial * 1000,
+      black: timeControl.initial * 1000,
+      turnStartedAt: null
+    },
+    moveTimestamps: [],
+    flagTimer: null,
+    startedAt: null,
+    drawOfferedBy: null,
+    rematchOfferedBy: null,
+    takebackRequestedBy: null,
+    chat: []
+  };
+  return roomId;
+};
+
+type ColorPreference = PlayerColor | 'random';
+
+// An open challenge in the lobby that any other player can accept
+interface Seek {
+  id: string;
+  socketId: string;
+  name: string;
+  timeControl: TimeControl;
+  color: ColorPreference;
+  createdAt: number;
+}
+
+// Players waiting for an automatic opponent with the same time control
+interface QuickPairEntry {
+  socketId: string;
+  name: string;
+  timeControl: TimeControl;
+}
+
+const LOBBY_ROOM = 'lobby';
+
+const seeks: { [seekId: string]: Seek } = {};
+let quickPairQueue: QuickPairEntry[] = [];
+
+const isSameTimeControl = (a: TimeControl, b: TimeControl) =>
+  a.initial === b.initial && a.increment === b.increment;
+
+const broadcastSeeks = () => {
+  io.to(LOBBY_ROOM).emit('lobby_seeks', Object.values(seeks).map(seek => ({
+    id: seek.id,
+    name: seek.name,
+    time_control: seek.timeControl,
+    color: seek.color,
+    created_at: seek.createdAt
+  })));
+};
+
+// Drop everything a socket has waiting in the lobby, e.g. once it is paired or gone
+const leaveLobby = (socketId: string) => {
+  let seeksChanged = false;
+  for (const seek of Object.values(seeks)) {
+    if (seek.socketId === socketId) {
+      delete seeks[seek.id];
+      seeksChanged = true;
+    }
+  }
+  quickPairQueue = quickPairQueue.filter(entry => entry.socketId !== socketId);
+  if (seeksChanged) {
+    broadcastSeeks();
+  }
+};
+
+// A custom starting position must be legal and leave something to play
+const parseStartFen = (input?: unknown): { fen: string } | { error: string } => {
+  if (input === undefined || input === null || input === '') {
+    return { fen: DEFAULT_POSITION };
+  }
+  const fen = String(input).trim();
+  const validation = validateFen(fen);
+  if (!validation.ok) {
+    return { error: validation.error ?? 'Invalid FEN' };
+  }
+  const game: Room['game'] = new Chess(fen);
+  if (game.isGameOver()) {
+    return { error: 'The game is already over in this position' };
+  }
+  return { fen };
+};
+
+const parseTimeControl = (input?: Partial<TimeControl>): TimeControl => {
+  const initial = Number(input?.initial);
+  const increment = Number(input?.increment);
+  if (!Number.isFinite(initial) || !Number.isFinite(increment)) {
+    return DEFAULT_TIME_CONTROL;
+  }
+  // Between 30 seconds and 3 hours, with at most one minute of increment
+  return {
+    initial: Math.min(Math.max(Math.round(initial), 30), 10800),
+    increment: Math.min(Math.max(Math.round(increment), 0), 60)
+  };
+};
+
+const colorToMove = (roomId: string): PlayerColor =>
+  rooms[roomId].game.turn() === 'w' ? 'white' : 'black';
+
+// Remaining time for both sides, including the time already spent on the running clock
+const getClockSnapshot = (roomId: string) => {
+  const { clock } = rooms[roomId];
+  const snapshot = { white: clock.white, black: clock.black };
+  if (clock.turnStartedAt !== null) {
+    const color = colorToMove(roomId);
+    snapshot[color] = Math.max(0, snapshot[color] - (Date.now() - clock.turnStartedAt));
+  }
+  return snapshot;
+};
+
+const clearFlagTimer = (roomId: string) => {
+  const room = rooms[roomId];
+  if (room?.flagTimer) {
+    clearTimeout(room.flagTimer);
+    room.flagTimer = null;
+  }
+};
+
+// Seat two lobby players in a new room and start the game right away.
+// Both sides get the same room_joined event a player gets when entering a room code.
+const startPairedGame = (
+  white: { socketId: string, name: string },
+  black: { socketId: string, name: string },
+  timeControl: TimeControl
+) => {
+  leaveFinishedRooms(white.socketId);
+  leaveFinishedRooms(black.socketId);
+  const roomId = createRoom(timeControl);
+  const room = rooms[roomId];
+  room.players[white.socketId] = createPlayer('white', white.name);
+  room.players[black.socketId] = createPlayer('black', black.name);
+  leaveLobby(white.socketId);
+  leaveLobby(black.socketId);
+  room.gameState = 'playing';
+  room.startedAt = Date.now();
+  startClock(roomId);
+  console.log(`Paired ${white.name} and ${black.name} in room ${roomId}`);
+
+  for (const [player, opponent] of [[white, black], [black, white]]) {
+    const playerSocket = io.sockets.sockets.get(player.socketId);
+    playerSocket?.leave(LOBBY_ROOM);
+    playerSocket?.join(roomId);
+    playerSocket?.emit('room_joined', {
+      room_code: roomId,
+      player_color: room.players[player.socketId].color,
+      opponent: opponent.name,
+      status: 'playing',
+      time_control: room.timeControl,
+      start_fen: room.startFen,
+      clock: getClockSnapshot(roomId),
+      seat_token: room.players[player.socketId].seatToken
+    });
+  }
+};
+
+// Set up the room's starting position again with full clocks and nothing pending
+const resetRoomGame = (roomId: string) => {
+  const room = rooms[roomId];
+  room.game = new Chess(room.startFen);
+  room.clock = {
+    white: room.timeControl.initial * 1000,
+    black: room.timeControl.initial * 1000,
+    turnStartedAt: null
+  };
+  room.moveTimestamps = [];
+  room.drawOfferedBy = null;
+  room.rematchOfferedBy = null;
+  room.takebackRequestedBy = null;
+  room.endReason = null;
+};
+
+// Start a fresh game in the same room with the colours swapped
+const startRematch = (roomId: string) => {
+  const room = rooms[roomId];
+  for (const player of Object.values(room.players)) {
+    player.color = player.color === 'white' ? 'black' : 'white';
+  }
+  resetRoomGame(roomId);
+  room.gameState = 'playing';
+  room.startedAt = Date.now();
+  startClock(roomId);
+  console.log(`Rematch started in room ${roomId}`);
+
+  const names = getPlayerNames(roomId);
+  for (const [socketId, player] of Object.entries(room.players)) {
+    io.to(socketId).emit('rematch_started', {
+      player_color: player.color,
+      opponent: player.color === 'white' ? names.black : names.white,
+      time_control: room.timeControl,
+      start_fen: room.startFen,
+      clock: getClockSnapshot(roomId),
+      seat_token: player.seatToken
+    });
+  }
+  emitToSpectators(roomId, 'rematch_started', {
+    white: names.white,
+    black: names.black,
+    time_control: room.timeControl,
+    start_fen: room.startFen,
+    clock: getClockSnapshot(roomId)
+  });
+};
+
+const isInRoom = (socketId: string) =>
+  Object.values(rooms).some(room => room.players[socketId] && room.gameState !== 'finished');
+
+// A finished game's seat is only kept for a rematch; entering another game gives it up,
+// so events from the new game can never be matched to the old room
+const leaveFinishedRooms = (socketId: string) => {
+  for (const roomId of Object.keys(rooms)) {
+    if (rooms[roomId].players[socketId] && rooms[roomId].gameState === 'finished') {
+      io.sockets.sockets.get(socketId)?.leave(roomId);
+      removePlayer(roomId, socketId);
+    }
+  }
+};
+
+const getPlayerNames = (roomId: string) => {
+  const names = { white: 'Unknown', black: 'Unknown' };
+  for (const player of Object.values(rooms[roomId].players)) {
+    names[player.color] = player.name;
+  }
+  return names;
+};
+
+// For events that only go to one player, so spectators still see what happened
+const emitToSpectators = (roomId: string, event: string, payload?: object) => {
+  for (const spectatorId of Object.keys(rooms[roomId]?.spectators ?? {})) {
+    io.to(spectatorId).emit(event, payload);
+  }
+};
+
+const broadcastSpectatorCount = (roomId: string) => {
+  io.to(roomId).emit('spectator_count', { count: Object.keys(rooms[roomId].spectators).length });
+};
+
+const formatPgnDate = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(0, 10).replace(/-/g, '.');
+
+// Checkmate and the automatic draws; anything else (resignation, agreement, time) is decided elsewhere
+const getGameOutcome = (game: Room['game']): { winner: PlayerColor | null, reason: string } | null => {
+  if (game.isCheckmate()) {
+    const winner: PlayerColor = game.turn() === 'w' ? 'black' : 'white';
+    return { winner, reason: `${winner === 'white' ? 'White' : 'Black'} wins by checkmate!` };
+  }
+  if (game.isStalemate()) {
+    return { winner: null, reason: 'Game drawn by stalemate!' };
+  }
+  if (game.isInsufficientMaterial()) {
+    return { winner: null, reason: 'Game drawn by insufficient material!' };
+  }
+  if (game.isThreefoldRepetition()) {
+    return { winner: null, reason: 'Game drawn by threefold repetition!' };
+  }
+  if (game.isDrawByFiftyMoves()) {
+    return { winner: null, reason: 'Game drawn by the 50-move rule!' };
+  }
+  return null;
+};
+
+// Mark the game as over, stop the clocks, archive it and send everyone in the room
+// the one authoritative result
+const finishGame = (roomId: string, winner: PlayerColor | null, reason: string) => {
+  const room = rooms[roomId];
+  if (!room || room.gameState === 'finished') {
+    return;
+  }
+  const wasPlaying = room.gameState === 'playing';
+  room.gameState = 'finished';
+  room.endReason = reason;
+  room.drawOfferedBy = null;
+  stopClock(roomId);
+  if (!wasPlaying || room.startedAt === null) {
+    return;
+  }
+
+  const names = getPlayerNames(roomId);
+  const result: GameResult = winner === 'white' ? '1-0' : winner === 'black' ? '0-1' : '1/2-1/2';
+  const endedAt = Date.now();
+  io.to(roomId).emit('game_ended', {
+    result,
+    winner,
+    reason,
+    clock: getClockSnapshot(roomId)
+  });
+
+  room.game.setHeader('Event', 'ChessSpace online game');
+  room.game.setHeader('Site', 'ChessSpace');
+  room.game.setHeader('Date', formatPgnDate(room.startedAt));
+  room.game.setHeader('White', names.white);
+  room.game.setHeader('Black', names.black);
+  room.game.setHeader('Result', result);
+  room.game.setHeader('TimeControl', `${room.timeControl.initial}+${room.timeControl.increment}`);
+  room.game.setHeader('Termination', reason);
+
+  gameRepository.save({
+    id: randomUUID(),
+    roomCode: roomId,
+    white: names.white,
+    black: names.black,
+    timeControl: room.timeControl,
+    result,
+    reason,
+    pgn: room.game.pgn(),
+    moves: room.game.history(),
+    moveTimestamps: [...room.moveTimestamps],
+    startedAt: new Date(room.startedAt).toISOString(),
+    endedAt: new Date(endedAt).toISOString()
+  }).catch(error => console.error(`Failed to save game from room ${roomId}:`, error));
+};
+
+// A lone king, or a king with a single bishop or knight, can never deliver mate
+const hasMatingMaterial = (game: Room['game'], color: PlayerColor) => {
+  const board: ReturnType<Chess['board']> = game.board();
+  const pieces = board.flat().filter(piece => piece && piece.color === color[0] && piece.type !== 'k');
+  return pieces.length > 1 || pieces.some(piece => piece!.type !== 'b' && piece!.type !== 'n');
+};
+
+const handleFlagFall = (roomId: string) => {
+  const room = rooms[roomId];
+  if (!room || room.gameState !== 'playing') {
+    return;
+  }
+  const loser = colorToMove(roomId);
+  const winner: PlayerColor = loser === 'white' ? 'black' : 'white';
+  room.clock[loser] = 0;
+  room.clock.turnStartedAt = null;
+  room.flagTimer = null;
+  console.log(`Flag fell for ${loser} in room ${roomId}`);
+  if (!hasMatingMaterial(room.game, winner)) {
+    return finishGame(roomId, null, "Time's up! Game drawn by timeout vs insufficient material");
+  }
+  finishGame(roomId, winner, `Time's up! ${winner === 'white' ? 'White' : 'Black'} wins`);
+};
+
+// Start the clock of the side to move and arm the server-side flag
+const startClock = (roomId: string) => {
+  const room = rooms[roomId];
+  clearFlagTimer(roomId);
+  room.clock.turnStartedAt = Date.now();
+  room.flagTimer = setTimeout(() => handleFlagFall(roomId), room.clock[colorToMove(roomId)]);
+};
+
+// Give up a seat for good: the game ends and an empty room is deleted
+const removePlayer = (roomId: string, socketId: string) => {
+  const room = rooms[roomId];
+  const player = room?.players[socketId];
+  if (!player) {
+    return;
+  }
+  if (player.disconnectTimer) {
+    clearTimeout(player.disconnectTimer);
+  }
+  // Finish before removing so the archive still knows both players
+  finishGame(
+    roomId,
+    player.color === 'white' ? 'black' : 'white',
+    `${player.color === 'white' ? 'Black' : 'White'} wins by abandonment`
+  );
+  delete room.players[socketId];
+  console.log(`Player ${socketId} left room ${roomId}`);
+  io.to(roomId).emit('player_disconnected', {
+    player: player.name,
+    color: player.color,
+    game_state: 'finished'
+  });
+  if (Object.keys(room.players).length === 0) {
+    console.log(`Room ${roomId} is empty, deleting.`);
+    delete rooms[roomId];
+  }
+};
+
+// Taking back your move also takes back the opponent's reply if they have already played one
+const getTakebackPlies = (roomId: string, socketId: string) =>
+  rooms[roomId].players[socketId].color === colorToMove(roomId) ? 2 : 1;
+
+const applyTakeback = (roomId: string, requesterId: string) => {
+  const room = rooms[roomId];
+  const plies = getTakebackPlies(roomId, requesterId);
+  // Time already spent stays spent; only the move order is rewound
+  stopClock(roomId);
+  for (let i = 0; i < plies; i++) {
+    room.game.undo();
+    room.moveTimestamps.pop();
+  }
+  room.takebackRequestedBy = null;
+  startClock(roomId);
+  console.log(`Took back ${plies} ply in room ${roomId}`);
+  io.to(roomId).emit('takeback_applied', {
+    plies,
+    fen: room.game.fen(),
+    moves: room.game.history(),
+    clock: getClockSnapshot(roomId)
+  });
+};
+
+const stopClock = (roomId: string) => {
+  const room = rooms[roomId];
+  if (!room) {
+    return;
+  }
+  const snapshot = getClockSnapshot(roomId);
+  room.clock.white = snapshot.white;
+  room.clock.black = snapshot.black;
+  room.clock.turnStartedAt = null;
+  clearFlagTimer(roomId);
+};
 
 io.on('connection', (socket) => {
   console.log('A user connected:', socket.id);
 
-  socket.on('create_room', ({ playerName }) => {
-    const roomId = Math.floor(1000 + Math.random() * 9000).toString();
-    rooms[roomId] = {
-      players: { [socket.id]: { color: 'white', name: playerName } },
-      game: new Chess(),
-      gameState: 'waiting'
-    };
+  socket.on('create_room', ({ playerName, timeControl, startFen }) => {
+    if (isInRoom(socket.id)) {
+      return socket.emit('error', { message: 'Finish your current game first' });
+    }
+    const startPosition = parseStartFen(startFen);
+    if ('error' in startPosition) {
+      return socket.emit('error', { message: `Invalid starting position: ${startPosition.error}` });
+    }
+    const roomTimeControl = parseTimeControl(timeControl);
+    leaveFinishedRooms(socket.id);
+    const roomId = createRoom(roomTimeControl, startPosition.fen);
+    rooms[roomId].players[socket.id] = createPlayer('white', playerName);
+    leaveLobby(socket.id);
     socket.join(roomId);
     console.log(`Room ${roomId} created by ${playerName} (${socket.id})`);
-    socket.emit('room_created', { room_code: roomId, player_color: 'white', status: 'waiting' });
+    socket.emit('room_created', {
+      room_code: roomId,
+      player_color: 'white',
+      status: 'waiting',
+      time_control: roomTimeControl,
+      start_fen: startPosition.fen,
+      seat_token: rooms[roomId].players[socket.id].seatToken
+    });
   });
 
-  socket.on('join_room', ({ room_id, player_name }) => {
+  socket.on('join_room', ({ room_id, player_name, spectate }) => {
     const room = rooms[room_id];
     if (!room) {
       return socket.emit('error', { message: 'Room not found' });
     }
-    if (Object.keys(room.players).length >= 2) {
-      return socket.emit('error', { message: 'Room is full' });
-    }
     const playerIds = Object.keys(room.players);
     if (playerIds.includes(socket.id)) {
       return socket.emit('error', { message: 'You are already in this room' });
     }
 
-    room.players[socket.id] = { color: 'black', name: player_name };
-    room.gameState = 'playing';
-    socket.join(room_id);
-    console.log(`${player_name} (${socket.id}) joined room ${room_id}`);
+    // A full room (or an explicit request) makes the newcomer a spectator
+    if (spectate || playerIds.length >= 2) {
+      room.spectators[socket.id] = { name: player_name };
+      socket.join(room_id);
+      console.log(`${player_name} (${socket.id}) is spectating room ${room_id}`);
+      const names = getPlayerNames(room_id);
+      socket.emit('spectator_joined', {
+        room_code: room_id,
+        white: names.white,
+        black: names.black,
+        status: room.gameState,
+        reason: room.endReason,
+        time_control: room.timeControl,
+        clock: getClockSnapshot(room_id),
+        fen: room.game.fen(),
+        start_fen: room.startFen,
+        moves: room.game.history()
+      });
+      socket.emit('chat_history', { messages: room.chat });
+      return broadcastSpectatorCount(room_id);
+    }
 
+    if (isInRoom(socket.id)) {
+      return socket.emit('error', { message: 'Finish your current game first' });
+    }
+    leaveFinishedRooms(socket.id);
     const opponentId = playerIds[0];
     const opponentName = room.players[opponentId].name;
+    // After a rematch the player still waiting here may be black, so take whichever colour is free
+    const color: PlayerColor = room.players[opponentId].color === 'black' ? 'white' : 'black';
+    // The room may still hold the game its previous pairing finished
+    if (room.gameState === 'finished') {
+      resetRoomGame(room_id);
+    }
+    room.players[socket.id] = createPlayer(color, player_name);
+    leaveLobby(socket.id);
+    room.gameState = 'playing';
+    room.startedAt = Date.now();
+    socket.join(room_id);
+    startClock(room_id);
+    console.log(`${player_name} (${socket.id}) joined room ${room_id}`);
 
     // Notify the new player they joined
     socket.emit('room_joined', { 
       room_code: room_id, 
-      player_color: 'black', 
+      player_color: color, 
       opponent: opponentName,
-      status: 'playing'
+      status: 'playing',
+      time_control: room.timeControl,
+      start_fen: room.startFen,
+      clock: getClockSnapshot(room_id),
+      seat_token: room.players[socket.id].seatToken
     });
+    socket.emit('chat_history', { messages: room.chat });
+
+    // Notify the existing player that an opponent joined; their seat token is sent again
+    // because the client drops it once a game in the room has ended
+    const opponentJoined = {
+      opponent: player_name,
+      status: 'playing',
+      time_control: room.timeControl,
+      clock: getClockSnapshot(room_id),
+      start_fen: room.startFen
+    };
+    io.to(opponentId).emit('opponent_joined', { ...opponentJoined, seat_token: room.players[opponentId].seatToken });
+    emitToSpectators(room_id, 'opponent_joined', opponentJoined);
+  });
+
+  socket.on('subscribe_lobby', () => {
+    socket.join(LOBBY_ROOM);
+    broadcastSeeks();
+  });
+
+  socket.on('unsubscribe_lobby', () => {
+    socket.leave(LOBBY_ROOM);
+  });
+
+  socket.on('create_seek', ({ playerName, timeControl, color }) => {
+    if (isInRoom(socket.id)) {
+      return socket.emit('error', { message: 'Finish your current game first' });
+    }
+    // One open seek per player; posting again replaces the old one
+    leaveLobby(socket.id);
+    const seek: Seek = {
+      id: randomUUID(),
+      socketId: socket.id,
+      name: playerName,
+      timeControl: parseTimeControl(timeControl),
+      color: color === 'white' || color === 'black' ? color : 'random',
+      createdAt: Date.now()
+    };
+    seeks[seek.id] = seek;
+    socket.emit('seek_created', { seek_id: seek.id });
+    broadcastSeeks();
+  });
+
+  socket.on('cancel_seek', () => {
+    leaveLobby(socket.id);
+  });
+
+  socket.on('accept_seek', ({ seek_id, playerName }) => {
+    const seek = seeks[seek_id];
+    if (!seek) {
+      return socket.emit('error', { message: 'This seek is no longer available' });
+    }
+    if (seek.socketId === socket.id) {
+      return socket.emit('error', { message: 'You cannot accept your own seek' });
+    }
+    if (isInRoom(socket.id)) {
+      return socket.emit('error', { message: 'Finish your current game first' });
+    }
+    const seeker = { socketId: seek.socketId, name: seek.name };
+    const accepter = { socketId: socket.id, name: playerName };
+    const seekerColor = seek.color === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : seek.color;
+    if (seekerColor === 'white') {
+      startPairedGame(seeker, accepter, seek.timeControl);
+    } else {
+      startPairedGame(accepter, seeker, seek.timeControl);
+    }
+  });
 
-    // Notify the existing player that an opponent joined
-    socket.to(room_id).emit('opponent_joined', { opponent: player_name, status: 'playing' });
+  socket.on('quick_pair', ({ playerName, timeControl }) => {
+    if (isInRoom(socket.id)) {
+      return socket.emit('error', { message: 'Finish your current game first' });
+    }
+    const pairTimeControl = parseTimeControl(timeControl);
+    leaveLobby(socket.id);
+    const opponent = quickPairQueue.find(entry => isSameTimeControl(entry.timeControl, pairTimeControl));
+    if (!opponent) {
+      quickPairQueue.push({ socketId: socket.id, name: playerName, timeControl: pairTimeControl });
+      return socket.emit('quick_pair_waiting', { time_control: pairTimeControl });
+    }
+    const me = { socketId: socket.id, name: playerName };
+    if (Math.random() < 0.5) {
+      startPairedGame(me, opponent, pairTimeControl);
+    } else {
+      startPairedGame(opponent, me, pairTimeControl);
+    }
+  });
+
+  socket.on('cancel_quick_pair', () => {
+    quickPairQueue = quickPairQueue.filter(entry => entry.socketId !== socket.id);
+  });
+
+  socket.on('rejoin_room', ({ room_id, seat_token }) => {
+    const room = rooms[room_id];
+    const previousId = room && Object.keys(room.players).find(id => room.players[id].seatToken === seat_token);
+    if (!room || !previousId || !seat_token) {
+      return socket.emit('rejoin_failed', { message: 'Your seat in this game is no longer available' });
+    }
+
+    // Move the seat over to the new socket
+    const player = room.players[previousId];
+    if (player.disconnectTimer) {
+      clearTimeout(player.disconnectTimer);
+      player.disconnectTimer = null;
+    }
+    player.connected = true;
+    if (previousId !== socket.id) {
+      delete room.players[previousId];
+      room.players[socket.id] = player;
+      // Pending offers are keyed by socket id, so they follow the seat
+      for (const offer of ['drawOfferedBy', 'rematchOfferedBy', 'takebackRequestedBy'] as const) {
+        if (room[offer] === previousId) {
+          room[offer] = socket.id;
+        }
+      }
+      io.sockets.sockets.get(previousId)?.leave(room_id);
+    }
+    socket.join(room_id);
+    console.log(`${player.name} (${socket.id}) rejoined room ${room_id}`);
+
+    const opponentId = Object.keys(room.players).find(id => id !== socket.id);
+    socket.emit('room_rejoined', {
+      room_code: room_id,
+      player_color: player.color,
+      opponent: opponentId ? room.players[opponentId].name : '',
+      status: room.gameState,
+      reason: room.endReason,
+      time_control: room.timeControl,
+      clock: getClockSnapshot(room_id),
+      fen: room.game.fen(),
+      start_fen: room.startFen,
+      moves: room.game.history(),
+      seat_token: player.seatToken,
+      spectators: Object.keys(room.spectators).length
+    });
+    socket.emit('chat_history', { messages: room.chat });
+    socket.to(room_id).emit('opponent_reconnected', { player: player.name, color: player.color });
   });
 
   socket.on('make_move', ({ move }) => {
@@ -85,19 +794,57 @@ io.on('connection', (socket) => {
       return socket.emit('error', { message: 'Not in a game' });
     }
 
+    if (playerRoom.gameState !== 'playing') {
+      return socket.emit('error', { message: 'Game is not in progress' });
+    }
+
     const player = playerRoom.players[socket.id];
-    if (player && player.color === (playerRoom.game.turn() === 'w' ? 'white' : 'black')) {
-      const result = playerRoom.game.move(move);
+    if (player && player.color === colorToMove(roomId)) {
+      // The mover may have flagged before the timeout callback got to run
+      const movedAt = Date.now();
+      if (getClockSnapshot(roomId)[player.color] <= 0) {
+        return handleFlagFall(roomId);
+      }
+
+      let result = null;
+      try {
+        result = playerRoom.game.move(move);
+      } catch (error) {
+        // chess.js throws on illegal moves
+      }
       if (result) {
         console.log(`Move in room ${roomId}:`, move);
+        const { clock } = playerRoom;
+        if (clock.turnStartedAt !== null) {
+          clock[player.color] -= movedAt - clock.turnStartedAt;
+        }
+        clock[player.color] += playerRoom.timeControl.increment * 1000;
+        playerRoom.moveTimestamps.push(movedAt);
+        playerRoom.drawOfferedBy = null;
+        playerRoom.takebackRequestedBy = null;
+
+        const outcome = getGameOutcome(playerRoom.game);
+        if (outcome) {
+          clock.turnStartedAt = null;
+          clearFlagTimer(roomId);
+        } else {
+          startClock(roomId);
+        }
+
         // Broadcast to all players in the room
         io.to(roomId).emit('chess_move', {
-          from: move.from,
-          to: move.to,
-          promotion: move.promotion || 'q',
+          from: result.from,
+          to: result.to,
+          promotion: result.promotion,
           player: player.name,
-          color: player.color
+          color: player.color,
+          timestamp: movedAt,
+          clock: getClockSnapshot(roomId)
         });
+
+        if (outcome) {
+          finishGame(roomId, outcome.winner, outcome.reason);
+        }
       } else {
         socket.emit('error', { message: 'Invalid move' });
       }
@@ -122,14 +869,19 @@ io.on('connection', (socket) => {
     if (!playerRoom || !roomId) {
       return;
     }
+    if (playerRoom.gameState !== 'playing') {
+      return socket.emit('error', { message: 'Game is not in progress' });
+    }
 
     // Get opponent's socket ID
     const playerIds = Object.keys(playerRoom.players);
     const opponentId = playerIds.find(id => id !== socket.id);
     
-    if (opponentId) {
+    if (opponentId && !playerRoom.drawOfferedBy) {
+      playerRoom.drawOfferedBy = socket.id;
       // Emit draw offer to opponent
       socket.to(opponentId).emit('draw_offered');
+      emitToSpectators(roomId, 'draw_offered', { color: playerRoom.players[socket.id].color });
       console.log(`Draw offer sent from ${socket.id} to ${opponentId}`);
     }
   });
@@ -151,22 +903,22 @@ io.on('connection', (socket) => {
       return;
     }
 
-    // Get opponent's socket ID
-    const playerIds = Object.keys(playerRoom.players);
-    const opponentId = playerIds.find(id => id !== socket.id);
-    
-    if (opponentId) {
-      // Emit draw response to opponent
-      socket.to(opponentId).emit('draw_response', { accepted });
-      console.log(`Draw response sent from ${socket.id} to ${opponentId}: ${accepted}`);
-      
-      if (accepted) {
-        playerRoom.gameState = 'finished';
-        io.to(roomId).emit('game_ended', {
-          result: 'draw',
-          reason: 'Draw by agreement'
-        });
-      }
+    // Only a pending offer from the opponent can be answered
+    const opponentId = playerRoom.drawOfferedBy;
+    if (!opponentId || opponentId === socket.id || playerRoom.gameState !== 'playing') {
+      return;
+    }
+    playerRoom.drawOfferedBy = null;
+
+    // Emit draw response to opponent
+    socket.to(opponentId).emit('draw_response', { accepted });
+    if (!accepted) {
+      emitToSpectators(roomId, 'draw_response', { accepted });
+    }
+    console.log(`Draw response sent from ${socket.id} to ${opponentId}: ${accepted}`);
+
+    if (accepted) {
+      finishGame(roomId, null, 'Game drawn by agreement');
     }
   });
 
@@ -192,29 +944,170 @@ io.on('connection', (socket) => {
     const opponentId = playerIds.find(id => id !== socket.id);
     
     if (opponentId) {
-      // Emit resignation to opponent
-      socket.to(opponentId).emit('opponent_resigned');
-      console.log(`Resignation sent from ${socket.id} to ${opponentId}`);
-      playerRoom.gameState = 'finished';
+      console.log(`${socket.id} resigned in room ${roomId}`);
+      const { color } = playerRoom.players[socket.id];
+      const winner: PlayerColor = color === 'white' ? 'black' : 'white';
+      finishGame(roomId, winner, `${winner === 'white' ? 'White' : 'Black'} wins by resignation`);
+    }
+  });
+
+  // Leaving the game screen gives up the seat for good, so the opponent is not left waiting on the clock
+  socket.on('leave_room', () => {
+    const roomId = Object.keys(rooms).find(id => rooms[id].players[socket.id]);
+    if (!roomId) {
+      return;
+    }
+    socket.leave(roomId);
+    removePlayer(roomId, socket.id);
+  });
+
+  const stopSpectating = () => {
+    for (const roomId in rooms) {
+      if (rooms[roomId].spectators[socket.id]) {
+        delete rooms[roomId].spectators[socket.id];
+        socket.leave(roomId);
+        broadcastSpectatorCount(roomId);
+      }
+    }
+  };
+
+  socket.on('stop_spectating', stopSpectating);
+
+  socket.on('chat_message', ({ text }) => {
+    const roomId = Object.keys(rooms).find(id => rooms[id].players[socket.id] || rooms[id].spectators[socket.id]);
+    if (!roomId) {
+      return socket.emit('error', { message: 'Not in a game' });
     }
+    const message = typeof text === 'string' ? text.trim() : '';
+    if (!message) {
+      return;
+    }
+    if (message.length > CHAT_MESSAGE_MAX_LENGTH) {
+      return socket.emit('error', { message: `Messages are limited to ${CHAT_MESSAGE_MAX_LENGTH} characters` });
+    }
+
+    const now = Date.now();
+    const recent = (chatTimestamps[socket.id] ?? []).filter(timestamp => now - timestamp < CHAT_RATE_WINDOW);
+    if (recent.length >= CHAT_RATE_LIMIT) {
+      return socket.emit('error', { message: 'You are sending messages too quickly' });
+    }
+    chatTimestamps[socket.id] = [...recent, now];
+
+    const room = rooms[roomId];
+    const player = room.players[socket.id];
+    const chatMessage: ChatMessage = {
+      id: randomUUID(),
+      sender: player ? player.name : room.spectators[socket.id].name,
+      role: player ? player.color : 'spectator',
+      text: message,
+      timestamp: now
+    };
+    room.chat = [...room.chat, chatMessage].slice(-CHAT_HISTORY_LIMIT);
+    io.to(roomId).emit('chat_message', chatMessage);
+  });
+
+  socket.on('request_takeback', () => {
+    const roomId = Object.keys(rooms).find(id => rooms[id].players[socket.id]);
+    if (!roomId) {
+      return;
+    }
+    const room = rooms[roomId];
+    const opponentId = Object.keys(room.players).find(id => id !== socket.id);
+    if (room.gameState !== 'playing' || !opponentId) {
+      return socket.emit('error', { message: 'Game is not in progress' });
+    }
+    if (getTakebackPlies(roomId, socket.id) > room.game.history().length) {
+      return socket.emit('error', { message: 'You have no move to take back' });
+    }
+    if (room.takebackRequestedBy) {
+      return;
+    }
+
+    room.takebackRequestedBy = socket.id;
+    const { color } = room.players[socket.id];
+    socket.to(opponentId).emit('takeback_requested', { color });
+    emitToSpectators(roomId, 'takeback_requested', { color });
+    console.log(`Takeback request sent from ${socket.id} to ${opponentId}`);
+  });
+
+  socket.on('takeback_response', ({ accepted }) => {
+    const roomId = Object.keys(rooms).find(id => rooms[id].players[socket.id]);
+    if (!roomId) {
+      return;
+    }
+    const room = rooms[roomId];
+    const requestedBy = room.takebackRequestedBy;
+    if (!requestedBy || requestedBy === socket.id || room.gameState !== 'playing') {
+      return;
+    }
+    if (accepted) {
+      return applyTakeback(roomId, requestedBy);
+    }
+    room.takebackRequestedBy = null;
+    socket.to(requestedBy).emit('takeback_declined');
+  });
+
+  socket.on('offer_rematch', () => {
+    const roomId = Object.keys(rooms).find(id => rooms[id].players[socket.id]);
+    if (!roomId) {
+      return;
+    }
+    const room = rooms[roomId];
+    const opponentId = Object.keys(room.players).find(id => id !== socket.id);
+    if (room.gameState !== 'finished' || !opponentId || !room.players[opponentId].connected) {
+      return socket.emit('error', { message: 'Your opponent is no longer available for a rematch' });
+    }
+
+    // Both players offering counts as agreement
+    if (room.rematchOfferedBy === opponentId) {
+      return startRematch(roomId);
+    }
+    room.rematchOfferedBy = socket.id;
+    socket.to(opponentId).emit('rematch_offered');
+    console.log(`Rematch offer sent from ${socket.id} to ${opponentId}`);
+  });
+
+  socket.on('rematch_response', ({ accepted }) => {
+    const roomId = Object.keys(rooms).find(id => rooms[id].players[socket.id]);
+    if (!roomId) {
+      return;
+    }
+    const room = rooms[roomId];
+    const offeredBy = room.rematchOfferedBy;
+    if (!offeredBy || offeredBy === socket.id || room.gameState !== 'finished') {
+      return;
+    }
+    if (accepted) {
+      return startRematch(roomId);
+    }
+    room.rematchOfferedBy = null;
+    socket.to(offeredBy).emit('rematch_declined');
   });
 
   socket.on('disconnect', () => {
     console.log('User disconnected:', socket.id);
+    delete chatTimestamps[socket.id];
+    leaveLobby(socket.id);
+    stopSpectating();
     for (const roomId in rooms) {
       const room = rooms[roomId];
-      if (room.players[socket.id]) {
-        delete room.players[socket.id];
-        console.log(`Player ${socket.id} left room ${roomId}`);
-        socket.to(roomId).emit('player_disconnected', {
-          player: room.players[socket.id]?.name || 'Unknown',
-          color: room.players[socket.id]?.color || 'unknown',
-          game_state: 'finished'
-        });
-        if (Object.keys(room.players).length === 0) {
-          console.log(`Room ${roomId} is empty, deleting.`);
-          delete rooms[roomId];
+      const player = room.players[socket.id];
+      if (player) {
+        if (room.gameState === 'finished') {
+          removePlayer(roomId, socket.id);
+          break;
         }
+
+        // Hold the seat so a refresh or a flaky connection does not end the game.
+        // The clock keeps running while the player is away.
+        player.connected = false;
+        player.disconnectTimer = setTimeout(() => removePlayer(roomId, socket.id), RECONNECT_GRACE_PERIOD);
+        console.log(`Holding seat of ${socket.id} in room ${roomId}`);
+        socket.to(roomId).emit('opponent_disconnected', {
+          player: player.name,
+          color: player.color,
+          grace_period: RECONNECT_GRACE_PERIOD
+        });
         break;
       }
     }
@@ -3,6 +3,8 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Toaster } from './components/ui';
 import ChessGame from './components/chess/ChessGame';
+import BoardEditor from './components/chess/BoardEditor';
+import AnalysisBoard from './components/chess/AnalysisBoard';
 import './index.css';
 
 function App() {
@@ -11,6 +13,8 @@ function App() {
       <div className="min-h-screen gradient-bg">
         <Routes>
           <Route path="/" element={<ChessGame />} />
+          <Route path="/editor" element={<BoardEditor />} />
+          <Route path="/analysis" element={<AnalysisBoard />} />
         </Routes>
         <Toaster />
       </div>
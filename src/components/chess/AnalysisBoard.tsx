@@ -0,0 +1,327 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Chess, DEFAULT_POSITION, Square } from 'chess.js';
+import {
+  ArrowLeft, ArrowUpCircle, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Copy, Download,
+  GitBranch, RotateCcw, Scissors, Trash2
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, Button } from '../ui';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '../../lib/utils';
+import { useEngineAnalysis } from '../../hooks/useEngineAnalysis';
+import {
+  MoveNode, MoveTree, addMove, createMoveTree, deleteFromMove, deleteVariation, formatTreeMove, isInVariation,
+  promoteVariation
+} from '../../utils/moveTree';
+import { buildTreePgn, downloadPgn } from '../../utils/pgn';
+import ChessBoard from './ChessBoard';
+import { AnalysisPanel, EvaluationBar, PendingPromotion, PromotionPiece, ThemeProvider, ThemeToggle } from './ChessGame';
+
+// Router state for opening the analysis board on a position, optionally with the moves that followed it
+export type AnalysisLaunch = { fen: string; moves?: string[] };
+
+const MoveTreeView: React.FC<{
+  tree: MoveTree;
+  currentId: string;
+  onSelect: (nodeId: string) => void;
+}> = ({ tree, currentId, onSelect }) => {
+  const renderMove = (node: MoveNode, showNumber: boolean) => (
+    <button
+      key={node.id}
+      type="button"
+      className={cn(
+        "px-1 rounded hover:bg-secondary transition-colors",
+        node.id === currentId && "bg-primary text-primary-foreground hover:bg-primary"
+      )}
+      onClick={() => onSelect(node.id)}
+    >
+      {formatTreeMove(node, showNumber)}
+    </button>
+  );
+
+  // Follows the first child of each move; variations open an indented block under the move they replace
+  const renderLine = (parentId: string, showNumber: boolean): React.ReactNode[] => {
+    const elements: React.ReactNode[] = [];
+    let parent = tree.nodes[parentId];
+    let needsNumber = showNumber;
+    while (parent.children.length > 0) {
+      const [mainId, ...variationIds] = parent.children;
+      elements.push(renderMove(tree.nodes[mainId], needsNumber));
+      if (variationIds.length > 0) {
+        elements.push(
+          <div key={`${mainId}-variations`} className="w-full pl-3 my-1 border-l-2 border-border space-y-1">
+            {variationIds.map(variationId => (
+              <div key={variationId} className="flex flex-wrap items-baseline gap-x-0.5 text-muted-foreground">
+                {renderMove(tree.nodes[variationId], true)}
+                {renderLine(variationId, false)}
+              </div>
+            ))}
+          </div>
+        );
+      }
+      needsNumber = variationIds.length > 0;
+      parent = tree.nodes[mainId];
+    }
+    return elements;
+  };
+
+  const line = renderLine(tree.rootId, true);
+  return line.length === 0 ? (
+    <p className="text-sm text-muted-foreground text-center py-4">Make a move on the board to start</p>
+  ) : (
+    <div className="flex flex-wrap items-baseline gap-x-0.5 text-sm font-mono">{line}</div>
+  );
+};
+
+const AnalysisBoard: React.FC = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [tree, setTree] = useState(() => {
+    const launch = location.state as AnalysisLaunch | null;
+    return createMoveTree(launch?.fen ?? DEFAULT_POSITION, launch?.moves);
+  });
+  // Open at the end of the line that was brought in
+  const [currentId, setCurrentId] = useState(() => {
+    let node = tree.nodes[tree.rootId];
+    while (node.children.length > 0) node = tree.nodes[node.children[0]];
+    return node.id;
+  });
+  const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
+  const [pendingPromotion, setPendingPromotion] = useState<PendingPromotion | null>(null);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(true);
+  const [analysisMultiPv, setAnalysisMultiPv] = useState(1);
+  const [startedAt] = useState(() => new Date());
+
+  const current = tree.nodes[currentId];
+  const position = useMemo(() => new Chess(current.fen), [current.fen]);
+  const board = useMemo(() => position.board(), [position]);
+  const validMoves: string[] = selectedSquare
+    ? position.moves({ square: selectedSquare as Square, verbose: true }).map(move => move.to)
+    : [];
+  const { lines: analysisLines, depth: analysisDepth } = useEngineAnalysis(
+    showAnalysis && !position.isGameOver() ? current.fen : null,
+    analysisMultiPv
+  );
+  const canPromote = isInVariation(tree, currentId);
+
+  const goTo = (nodeId: string) => {
+    setCurrentId(nodeId);
+    setSelectedSquare(null);
+    setPendingPromotion(null);
+  };
+
+  // A move that differs from the one played here starts a new variation instead of replacing it
+  const playMove = (from: string, to: string, promotion?: PromotionPiece) => {
+    const result = addMove(tree, currentId, { from, to, promotion });
+    if (!result) return;
+    setTree(result.tree);
+    goTo(result.nodeId);
+  };
+
+  const handleSquareClick = (square: string) => {
+    if (selectedSquare && validMoves.includes(square)) {
+      const isPromotion = position.moves({ square: selectedSquare as Square, verbose: true })
+        .some(move => move.to === square && move.promotion);
+      if (isPromotion) {
+        setPendingPromotion({ from: selectedSquare, to: square, color: position.turn() });
+        return;
+      }
+      playMove(selectedSquare, square);
+      return;
+    }
+    const piece = position.get(square as Square);
+    setSelectedSquare(piece && piece.color === position.turn() && square !== selectedSquare ? square : null);
+  };
+
+  const goBack = () => {
+    if (current.parentId !== null) goTo(current.parentId);
+  };
+  const goForward = () => {
+    if (current.children.length > 0) goTo(current.children[0]);
+  };
+  const goToEnd = () => {
+    let node = current;
+    while (node.children.length > 0) node = tree.nodes[node.children[0]];
+    goTo(node.id);
+  };
+
+  // Arrow keys step through the line shown on the board
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      if (event.key === 'ArrowLeft') goBack();
+      else if (event.key === 'ArrowRight') goForward();
+      else if (event.key === 'Home') goTo(tree.rootId);
+      else if (event.key === 'End') goToEnd();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handlePromote = () => setTree(promoteVariation(tree, currentId));
+
+  const handleDeleteVariation = () => {
+    const result = deleteVariation(tree, currentId);
+    setTree(result.tree);
+    goTo(result.parentId);
+  };
+
+  const handleDeleteFromHere = () => {
+    const result = deleteFromMove(tree, currentId);
+    setTree(result.tree);
+    goTo(result.parentId);
+  };
+
+  const getPgn = () => buildTreePgn(tree, {
+    event: 'ChessSpace analysis',
+    white: '?',
+    black: '?',
+    startedAt,
+    result: '*'
+  });
+
+  const handleCopyPgn = async () => {
+    try {
+      await navigator.clipboard.writeText(getPgn());
+      toast({ title: "PGN Copied", description: "The analysis is on your clipboard", duration: 2000 });
+    } catch (error) {
+      console.error('Failed to copy PGN:', error);
+      toast({ title: "Copy Failed", description: "Use Download PGN instead", variant: "destructive", duration: 3000 });
+    }
+  };
+
+  const handleDownloadPgn = () => {
+    downloadPgn(getPgn(), `chessspace-analysis-${startedAt.toISOString().slice(0, 10)}.pgn`);
+  };
+
+  const status = position.isCheckmate()
+    ? `Checkmate, ${position.turn() === 'w' ? 'Black' : 'White'} wins`
+    : position.isDraw()
+      ? 'Drawn position'
+      : `${position.turn() === 'w' ? 'White' : 'Black'} to move`;
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="w-full max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/')} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Menu
+          </Button>
+          <h1 className="text-xl md:text-2xl font-bold">Analysis Board</h1>
+          <ThemeToggle />
+        </div>
+
+        <div className="grid lg:grid-cols-[auto_1fr] gap-6 items-start">
+          <div className="space-y-2">
+            <div className="flex items-center justify-center gap-2">
+              {showAnalysis && (
+                <EvaluationBar score={analysisLines[0]?.score ?? null} isFlipped={isFlipped} />
+              )}
+              <ChessBoard
+                board={board}
+                selectedSquare={selectedSquare}
+                validMoves={validMoves}
+                onSquareClick={handleSquareClick}
+                isFlipped={isFlipped}
+                mode="local"
+                isInCheck={position.isCheck()}
+                lastMove={current.parentId !== null ? { from: current.from, to: current.to } : null}
+                promotion={pendingPromotion}
+                onPromotionSelect={(piece) => pendingPromotion && playMove(pendingPromotion.from, pendingPromotion.to, piece)}
+                onPromotionCancel={() => setPendingPromotion(null)}
+              />
+            </div>
+            <div className="flex items-center justify-center gap-1">
+              <Button variant="outline" size="sm" onClick={() => goTo(tree.rootId)} disabled={current.parentId === null} title="Start">
+                <ChevronsLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={goBack} disabled={current.parentId === null} title="Previous move">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={goForward} disabled={current.children.length === 0} title="Next move">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={goToEnd} disabled={current.children.length === 0} title="End of line">
+                <ChevronsRight className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsFlipped(!isFlipped)} title="Flip board">
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-center text-sm text-muted-foreground">{status}</p>
+          </div>
+
+          <div className="space-y-4">
+            <Card className="panel border shadow-sm">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base font-semibold flex items-center gap-2">
+                  <GitBranch className="h-4 w-4" />
+                  Moves
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="max-h-72 overflow-y-auto move-history-scroll">
+                  <MoveTreeView tree={tree} currentId={currentId} onSelect={goTo} />
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <Button variant="outline" size="sm" className="text-xs h-7" onClick={handlePromote} disabled={!canPromote}>
+                    <ArrowUpCircle className="h-3 w-3 mr-1" />
+                    Promote Variation
+                  </Button>
+                  <Button variant="outline" size="sm" className="text-xs h-7" onClick={handleDeleteVariation} disabled={!canPromote}>
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Delete Variation
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs h-7"
+                    onClick={handleDeleteFromHere}
+                    disabled={current.parentId === null}
+                  >
+                    <Scissors className="h-3 w-3 mr-1" />
+                    Delete From Here
+                  </Button>
+                </div>
+                <div className="flex gap-1 pt-2 border-t border-border/50">
+                  <Button variant="outline" size="sm" className="flex-1 text-xs h-7" onClick={handleCopyPgn}>
+                    <Copy className="h-3 w-3 mr-1" />
+                    Copy PGN
+                  </Button>
+                  <Button variant="outline" size="sm" className="flex-1 text-xs h-7" onClick={handleDownloadPgn}>
+                    <Download className="h-3 w-3 mr-1" />
+                    Download PGN
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <AnalysisPanel
+              enabled={showAnalysis}
+              available
+              onToggle={setShowAnalysis}
+              fen={current.fen}
+              lines={analysisLines}
+              depth={analysisDepth}
+              multiPv={analysisMultiPv}
+              onMultiPvChange={setAnalysisMultiPv}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AnalysisBoardWithTheme: React.FC = () => (
+  <ThemeProvider defaultTheme="dark" storageKey="chess-app-theme">
+    <AnalysisBoard />
+  </ThemeProvider>
+);
+
+export default AnalysisBoardWithTheme;
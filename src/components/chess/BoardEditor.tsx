@@ -0,0 +1,389 @@
+import React, { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { DEFAULT_POSITION } from 'chess.js';
+import {
+  ArrowLeft, Bot, Users, Activity, Check, Copy, Eraser, MousePointer2, FlipVertical2, RotateCcw, Trash2, X
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, Button, Input, Label, Switch } from '../ui';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '../../lib/utils';
+import ChessBoard, { ChessPiece } from './ChessBoard';
+import { AnalysisLaunch } from './AnalysisBoard';
+import { EditorLaunch, ThemeProvider, ThemeToggle } from './ChessGame';
+import {
+  CastlingRight, PieceColor, PieceType, PositionSetup, CASTLING_RIGHTS,
+  buildFen, emptyPlacement, getAvailableCastling, getEnPassantSquares, getPiece, getPositionError,
+  parseFen, setPiece, startingSetup
+} from '../../utils/position';
+
+type PieceCode = `${PieceColor}${PieceType}`;
+// Move drags pieces around; a piece places that piece on every clicked square
+type EditorTool = 'move' | 'erase' | PieceCode;
+
+// Pointer travel in pixels before a press on the palette turns into a drag
+const PALETTE_DRAG_THRESHOLD = 4;
+
+const PALETTE_PIECES: PieceType[] = ['k', 'q', 'r', 'b', 'n', 'p'];
+
+const CASTLING_LABELS: Record<CastlingRight, string> = {
+  K: 'White O-O',
+  Q: 'White O-O-O',
+  k: 'Black O-O',
+  q: 'Black O-O-O'
+};
+
+interface PaletteDrag {
+  piece: PieceCode;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  isDragging: boolean;
+}
+
+const PiecePalette: React.FC<{
+  color: PieceColor;
+  tool: EditorTool;
+  onPiecePointerDown: (piece: PieceCode, event: React.PointerEvent<HTMLButtonElement>) => void;
+  onPointerMove: (event: React.PointerEvent) => void;
+  onPointerUp: (event: React.PointerEvent) => void;
+}> = ({ color, tool, onPiecePointerDown, onPointerMove, onPointerUp }) => (
+  <div className="flex justify-center gap-1 p-1 rounded-lg bg-secondary/40 touch-none">
+    {PALETTE_PIECES.map(type => {
+      const piece: PieceCode = `${color}${type}`;
+      return (
+        <button
+          key={piece}
+          type="button"
+          className={cn(
+            "relative w-10 h-10 md:w-12 md:h-12 rounded-md transition-colors hover:bg-secondary",
+            tool === piece && "bg-primary/20 ring-2 ring-primary"
+          )}
+          onPointerDown={(event) => onPiecePointerDown(piece, event)}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+          title={`Place ${color === 'w' ? 'white' : 'black'} pieces`}
+        >
+          <ChessPiece piece={piece} />
+        </button>
+      );
+    })}
+  </div>
+);
+
+const BoardEditor: React.FC = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<PositionSetup>(() =>
+    parseFen((location.state as { fen?: string } | null)?.fen ?? DEFAULT_POSITION) ?? startingSetup());
+  const [tool, setTool] = useState<EditorTool>('move');
+  const [isFlipped, setIsFlipped] = useState(false);
+  // What is typed in the FEN field while it does not describe a board yet
+  const [fenDraft, setFenDraft] = useState<string | null>(null);
+  const [paletteDrag, setPaletteDrag] = useState<PaletteDrag | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fen = buildFen(setup);
+  const positionError = fenDraft !== null ? 'This is not a FEN the editor can read' : getPositionError(fen);
+  const availableCastling = getAvailableCastling(setup.placement);
+  const enPassantSquares = getEnPassantSquares(setup.placement, setup.turn);
+
+  const updateSetup = (changes: Partial<PositionSetup>) => {
+    setFenDraft(null);
+    setSetup(prev => ({ ...prev, ...changes }));
+  };
+
+  const placePiece = (square: string, piece: PieceCode | null) => {
+    updateSetup({
+      placement: setPiece(setup.placement, square, piece ? { color: piece[0] as PieceColor, type: piece[1] as PieceType } : null)
+    });
+  };
+
+  const handleSquareClick = (square: string) => {
+    if (tool === 'move') return;
+    if (tool === 'erase') {
+      placePiece(square, null);
+      return;
+    }
+    const current = getPiece(setup.placement, square);
+    // Clicking a square that already holds the chosen piece takes it off again
+    placePiece(square, current && `${current.color}${current.type}` === tool ? null : tool);
+  };
+
+  const handlePieceDrop = (from: string, to: string | null) => {
+    const placement = setPiece(setup.placement, from, null);
+    updateSetup({ placement: to ? setPiece(placement, to, getPiece(setup.placement, from)) : placement });
+  };
+
+  const handlePalettePointerDown = (piece: PieceCode, event: React.PointerEvent<HTMLButtonElement>) => {
+    if (event.button !== 0) return;
+    setTool(piece);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setPaletteDrag({
+      piece,
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      x: event.clientX,
+      y: event.clientY,
+      isDragging: false
+    });
+  };
+
+  const handlePalettePointerMove = (event: React.PointerEvent) => {
+    if (!paletteDrag || event.pointerId !== paletteDrag.pointerId) return;
+    const isDragging = paletteDrag.isDragging ||
+      Math.hypot(event.clientX - paletteDrag.startX, event.clientY - paletteDrag.startY) > PALETTE_DRAG_THRESHOLD;
+    setPaletteDrag({ ...paletteDrag, x: event.clientX, y: event.clientY, isDragging });
+  };
+
+  // The board's squares carry data-square, so the drop target is whatever square is under the pointer
+  const handlePalettePointerUp = (event: React.PointerEvent) => {
+    if (!paletteDrag || event.pointerId !== paletteDrag.pointerId) return;
+    setPaletteDrag(null);
+    if (!paletteDrag.isDragging) return;
+    const target = document.elementFromPoint(event.clientX, event.clientY)?.closest<HTMLElement>('[data-square]');
+    if (target?.dataset.square) {
+      placePiece(target.dataset.square, paletteDrag.piece);
+    }
+  };
+
+  const handleFenChange = (value: string) => {
+    const parsed = parseFen(value);
+    if (parsed) {
+      setSetup(parsed);
+      setFenDraft(null);
+    } else {
+      setFenDraft(value);
+    }
+  };
+
+  const toggleCastling = (right: CastlingRight, enabled: boolean) => {
+    updateSetup({
+      castling: enabled ? [...setup.castling, right] : setup.castling.filter(existing => existing !== right)
+    });
+  };
+
+  const copyFen = async () => {
+    try {
+      await navigator.clipboard.writeText(fen);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy FEN:', error);
+      toast({ title: "Copy Failed", description: "Select the FEN and copy it by hand", variant: "destructive", duration: 3000 });
+    }
+  };
+
+  const launch = (mode: EditorLaunch['mode']) => {
+    const state: EditorLaunch = { fen, mode };
+    navigate('/', { state });
+  };
+
+  const openAnalysisBoard = () => {
+    const state: AnalysisLaunch = { fen };
+    navigate('/analysis', { state });
+  };
+
+  const paletteProps = {
+    tool,
+    onPiecePointerDown: handlePalettePointerDown,
+    onPointerMove: handlePalettePointerMove,
+    onPointerUp: handlePalettePointerUp
+  };
+  const selectedEnPassant = setup.enPassant && enPassantSquares.includes(setup.enPassant) ? setup.enPassant : null;
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="w-full max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate('/')} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Menu
+          </Button>
+          <h1 className="text-xl md:text-2xl font-bold">Board Editor</h1>
+          <ThemeToggle />
+        </div>
+
+        <div className="grid lg:grid-cols-[auto_1fr] gap-6 items-start">
+          <div className="space-y-2">
+            <PiecePalette color={isFlipped ? 'w' : 'b'} {...paletteProps} />
+            <ChessBoard
+              board={setup.placement}
+              selectedSquare={null}
+              validMoves={[]}
+              onSquareClick={handleSquareClick}
+              onPieceDrop={handlePieceDrop}
+              isFlipped={isFlipped}
+              mode="local"
+            />
+            <PiecePalette color={isFlipped ? 'b' : 'w'} {...paletteProps} />
+            <div className="flex justify-center flex-wrap gap-1">
+              <Button
+                variant={tool === 'move' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTool('move')}
+                title="Drag pieces around, or off the board to remove them"
+              >
+                <MousePointer2 className="h-4 w-4 mr-1" />
+                Move
+              </Button>
+              <Button
+                variant={tool === 'erase' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTool('erase')}
+                title="Click pieces to remove them"
+              >
+                <Eraser className="h-4 w-4 mr-1" />
+                Erase
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsFlipped(!isFlipped)}>
+                <FlipVertical2 className="h-4 w-4 mr-1" />
+                Flip
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => updateSetup(startingSetup())}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Reset
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateSetup({ placement: emptyPlacement(), castling: [], enPassant: null })}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <Card className="panel border shadow-sm">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base font-semibold">Position</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <div className="text-sm font-medium text-muted-foreground">Side to move</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['w', 'b'] as PieceColor[]).map(turn => (
+                      <Button
+                        key={turn}
+                        variant={setup.turn === turn ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => updateSetup({ turn })}
+                      >
+                        {turn === 'w' ? 'White' : 'Black'}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="text-sm font-medium text-muted-foreground">Castling</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {CASTLING_RIGHTS.map(right => (
+                      <div key={right} className="flex items-center gap-2">
+                        <Switch
+                          id={`castling-${right}`}
+                          checked={availableCastling.includes(right) && setup.castling.includes(right)}
+                          onCheckedChange={(checked) => toggleCastling(right, checked)}
+                          disabled={!availableCastling.includes(right)}
+                        />
+                        <Label htmlFor={`castling-${right}`} className="text-sm">{CASTLING_LABELS[right]}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="text-sm font-medium text-muted-foreground">En passant</div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant={selectedEnPassant ? 'outline' : 'default'}
+                      size="sm"
+                      onClick={() => updateSetup({ enPassant: null })}
+                    >
+                      None
+                    </Button>
+                    {enPassantSquares.map(square => (
+                      <Button
+                        key={square}
+                        variant={selectedEnPassant === square ? 'default' : 'outline'}
+                        size="sm"
+                        className="font-mono"
+                        onClick={() => updateSetup({ enPassant: square })}
+                      >
+                        {square}
+                      </Button>
+                    ))}
+                  </div>
+                  {enPassantSquares.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      No pawn can just have moved two squares in this position
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <div className="text-sm font-medium text-muted-foreground">FEN</div>
+                  <div className="flex gap-2">
+                    <Input
+                      value={fenDraft ?? fen}
+                      onChange={(e) => handleFenChange(e.target.value)}
+                      className="font-mono text-xs"
+                      spellCheck={false}
+                    />
+                    <Button variant="outline" size="icon" className="shrink-0" onClick={copyFen} title="Copy FEN">
+                      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <p className={cn("text-xs flex items-center gap-1", positionError ? "text-destructive" : "text-green-600 dark:text-green-400")}>
+                    {positionError ? <X className="h-3 w-3" /> : <Check className="h-3 w-3" />}
+                    {positionError ?? `Legal position, ${setup.turn === 'w' ? 'White' : 'Black'} to move`}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="panel border shadow-sm">
+              <CardContent className="p-4 grid sm:grid-cols-3 gap-2">
+                <Button onClick={() => launch('ai')} disabled={!!positionError}>
+                  <Bot className="h-4 w-4 mr-2" />
+                  Play vs Computer
+                </Button>
+                <Button onClick={() => launch('local')} disabled={!!positionError}>
+                  <Users className="h-4 w-4 mr-2" />
+                  Play with a Friend
+                </Button>
+                <Button variant="outline" onClick={openAnalysisBoard} disabled={!!positionError}>
+                  <Activity className="h-4 w-4 mr-2" />
+                  Analyse
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      {paletteDrag?.isDragging && (
+        <div
+          className="fixed z-50 w-12 h-12 pointer-events-none"
+          style={{ left: paletteDrag.x - 24, top: paletteDrag.y - 24 }}
+        >
+          <ChessPiece piece={paletteDrag.piece} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BoardEditorWithTheme: React.FC = () => (
+  <ThemeProvider defaultTheme="dark" storageKey="chess-app-theme">
+    <BoardEditor />
+  </ThemeProvider>
+);
+
+export default BoardEditorWithTheme;
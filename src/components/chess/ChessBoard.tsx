@@ -1,39 +1,58 @@
 
-import React from 'react';
+import React, { useLayoutEffect, useRef, useState } from 'react';
 import { cn } from '../../lib/utils';
-import { GameMode } from './ChessGame';
+import { AnnotationColor, BoardAnnotation, GameMode, LastMove, PendingPromotion, Premove, PromotionPiece } from './ChessGame';
 
 // Chess Piece and Square components merged into this file
 interface ChessSquareProps {
   children?: React.ReactNode;
+  square: string;
   isLight: boolean;
   isSelected: boolean;
   isValidMove: boolean;
   isCheckmate?: boolean;
   isKingInCheck?: boolean;
-  onClick: () => void;
+  isReadOnly?: boolean;
+  isDragSource?: boolean;
+  isDragOver?: boolean;
+  isLastMove?: boolean;
+  isPremove?: boolean;
+  onPointerDown: (event: React.PointerEvent) => void;
 }
 
 const ChessSquare: React.FC<ChessSquareProps> = ({
   children,
+  square,
   isLight,
   isSelected,
   isValidMove,
   isCheckmate,
   isKingInCheck,
-  onClick
+  isReadOnly,
+  isDragSource,
+  isDragOver,
+  isLastMove,
+  isPremove,
+  onPointerDown
 }) => {
   return (
     <div
+      data-square={square}
       className={cn(
-        "relative w-full aspect-square cursor-pointer transition-colors",
+        "relative w-full aspect-square transition-colors",
+        isReadOnly ? "cursor-default" : "cursor-pointer",
         isLight ? "chess-square-light" : "chess-square-dark",
+        isLastMove && "chess-square-last-move",
+        isPremove && "chess-square-premove",
         isSelected && "chess-square-selected",
         isValidMove && "chess-square-valid-move",
         isCheckmate && "bg-red-500 animate-pulse ring-2 ring-red-400",
-        isKingInCheck && !isCheckmate && "bg-red-400 ring-1 ring-red-500"
+        isKingInCheck && !isCheckmate && "bg-red-400 ring-1 ring-red-500",
+        isDragOver && "chess-square-drag-over",
+        // The piece is drawn under the pointer while it is being dragged
+        isDragSource && "[&_img]:opacity-30"
       )}
-      onClick={onClick}
+      onPointerDown={onPointerDown}
     >
       {children}
     </div>
@@ -52,7 +71,7 @@ const ChessPiece: React.FC<ChessPieceProps> = ({ piece }) => {
   const imagePath = `/images/chess-pieces/${color}${pieceType}.png`;
 
   return (
-    <div className="absolute inset-0 flex items-center justify-center">
+    <div data-piece className="absolute inset-0 flex items-center justify-center">
       <img
         src={imagePath}
         alt={`${isWhite ? 'White' : 'Black'} ${pieceType}`}
@@ -66,6 +85,176 @@ const ChessPiece: React.FC<ChessPieceProps> = ({ piece }) => {
   );
 };
 
+const PROMOTION_PIECES: PromotionPiece[] = ['q', 'n', 'r', 'b'];
+
+interface PromotionPickerProps {
+  promotion: PendingPromotion;
+  isFlipped: boolean;
+  onSelect: (piece: PromotionPiece) => void;
+  onCancel: () => void;
+}
+
+// Column of pieces over the promotion square, growing towards the centre of the board
+const PromotionPicker: React.FC<PromotionPickerProps> = ({ promotion, isFlipped, onSelect, onCancel }) => {
+  const fileIndex = promotion.to.charCodeAt(0) - 97;
+  const displayFileIndex = isFlipped ? 7 - fileIndex : fileIndex;
+  const atTop = (promotion.to[1] === '8') !== isFlipped;
+
+  return (
+    <div className="absolute inset-0 z-20 bg-black/40" onClick={onCancel}>
+      <div
+        className={cn("absolute flex bg-card shadow-xl rounded-md overflow-hidden", atTop ? "flex-col" : "flex-col-reverse")}
+        style={{
+          left: `${displayFileIndex * 12.5}%`,
+          width: '12.5%',
+          height: '50%',
+          ...(atTop ? { top: 0 } : { bottom: 0 })
+        }}
+      >
+        {PROMOTION_PIECES.map(piece => (
+          <button
+            key={piece}
+            type="button"
+            className="relative flex-1 hover:bg-secondary transition-colors"
+            onClick={(event) => {
+              event.stopPropagation();
+              onSelect(piece);
+            }}
+          >
+            <ChessPiece piece={`${promotion.color}${piece}`} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+type PieceMove = { from: string; to: string };
+type BoardPiece = { type: string; color: string } | null;
+
+// Pair the pieces that left a square with the ones that arrived somewhere else, so a
+// castling rook slides along with its king and a promoted piece slides from the pawn.
+// Captured pieces, including an en passant pawn, simply disappear.
+const findMovedPieces = (previous: BoardPiece[][], next: BoardPiece[][]): PieceMove[] => {
+  const vanished: { square: string; code: string }[] = [];
+  const appeared: { square: string; code: string }[] = [];
+  for (let rankIndex = 0; rankIndex < 8; rankIndex++) {
+    for (let fileIndex = 0; fileIndex < 8; fileIndex++) {
+      const before = previous[rankIndex][fileIndex];
+      const after = next[rankIndex][fileIndex];
+      const beforeCode = before ? `${before.color}${before.type}` : null;
+      const afterCode = after ? `${after.color}${after.type}` : null;
+      if (beforeCode === afterCode) continue;
+      const square = `${String.fromCharCode(97 + fileIndex)}${8 - rankIndex}`;
+      if (beforeCode) vanished.push({ square, code: beforeCode });
+      if (afterCode) appeared.push({ square, code: afterCode });
+    }
+  }
+  // Anything bigger than a single move (a reset, a jump through the history) just redraws
+  if (appeared.length === 0 || appeared.length > 2 || vanished.length > 3) {
+    return [];
+  }
+  return appeared.flatMap(target => {
+    const source = vanished.find(piece => piece.code === target.code) ??
+      vanished.find(piece => piece.code === `${target.code[0]}p`);
+    if (!source) return [];
+    vanished.splice(vanished.indexOf(source), 1);
+    return [{ from: source.square, to: target.square }];
+  });
+};
+
+const ANNOTATION_COLORS: Record<AnnotationColor, string> = {
+  green: '#15781b',
+  red: '#b02020',
+  blue: '#1d4fc4',
+  yellow: '#e68f00'
+};
+
+// Modifier keys pick the colour, as on the major chess sites
+const getAnnotationColor = (event: React.PointerEvent): AnnotationColor => {
+  if (event.shiftKey && (event.altKey || event.ctrlKey)) return 'yellow';
+  if (event.shiftKey) return 'red';
+  if (event.altKey || event.ctrlKey) return 'blue';
+  return 'green';
+};
+
+interface AnnotationLayerProps {
+  annotations: BoardAnnotation[];
+  isFlipped: boolean;
+}
+
+// Arrows and circles in board units: each square is 1 x 1 in the viewBox
+const AnnotationLayer: React.FC<AnnotationLayerProps> = ({ annotations, isFlipped }) => {
+  const center = (square: string) => {
+    const file = square.charCodeAt(0) - 97;
+    const rank = Number(square[1]) - 1;
+    return isFlipped ? { x: 7.5 - file, y: rank + 0.5 } : { x: file + 0.5, y: 7.5 - rank };
+  };
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none z-10" viewBox="0 0 8 8">
+      <defs>
+        {Object.entries(ANNOTATION_COLORS).map(([name, color]) => (
+          <marker key={name} id={`arrowhead-${name}`} markerWidth="4" markerHeight="4" refX="2.05" refY="2" orient="auto">
+            <path d="M0,0 V4 L3,2 Z" fill={color} />
+          </marker>
+        ))}
+      </defs>
+      {annotations.map(({ from, to, color }) => {
+        const start = center(from);
+        if (from === to) {
+          return (
+            <circle
+              key={`${from}-${color}`}
+              cx={start.x}
+              cy={start.y}
+              r={0.46}
+              fill="none"
+              stroke={ANNOTATION_COLORS[color]}
+              strokeWidth={0.07}
+              opacity={0.8}
+            />
+          );
+        }
+        const end = center(to);
+        // Stop short of the centre so the head sits inside the target square
+        const length = Math.hypot(end.x - start.x, end.y - start.y);
+        const shorten = 0.35 / length;
+        return (
+          <line
+            key={`${from}-${to}-${color}`}
+            x1={start.x}
+            y1={start.y}
+            x2={end.x - (end.x - start.x) * shorten}
+            y2={end.y - (end.y - start.y) * shorten}
+            stroke={ANNOTATION_COLORS[color]}
+            strokeWidth={0.16}
+            strokeLinecap="round"
+            markerEnd={`url(#arrowhead-${color})`}
+            opacity={0.8}
+          />
+        );
+      })}
+    </svg>
+  );
+};
+
+// Pointer travel in pixels before a press on a piece turns into a drag
+const DRAG_THRESHOLD = 4;
+
+interface DragState {
+  from: string;
+  piece: string;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  isDragging: boolean;
+  // Pressing an already selected piece deselects it on release, unless it was dragged
+  wasSelected: boolean;
+}
+
 // Main ChessBoard component
 interface ChessBoardProps {
   board: any[][];
@@ -78,6 +267,23 @@ interface ChessBoardProps {
   isInCheck?: boolean;
   checkmateSquare?: string | null;
   isViewingHistory?: boolean;
+  // Spectators see the board but can never select or move pieces
+  readOnly?: boolean;
+  promotion?: PendingPromotion | null;
+  onPromotionSelect?: (piece: PromotionPiece) => void;
+  onPromotionCancel?: () => void;
+  // Slide time for moved pieces in milliseconds; 0 redraws instantly
+  animationDuration?: number;
+  lastMove?: LastMove | null;
+  annotations?: BoardAnnotation[];
+  onAnnotationsChange?: (annotations: BoardAnnotation[]) => void;
+  // Hints and threats from the engine; drawn with the user's own but never edited by them
+  engineAnnotations?: BoardAnnotation[];
+  premoves?: Premove[];
+  // Right-clicking cancels queued premoves instead of drawing
+  onPremovesCancel?: () => void;
+  // Setting up a position: any piece can be dragged to any square, or off the board (to is null)
+  onPieceDrop?: (from: string, to: string | null) => void;
 }
 
 const ChessBoard: React.FC<ChessBoardProps> = ({
@@ -90,10 +296,190 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
   playerColor,
   isInCheck,
   checkmateSquare,
-  isViewingHistory = false
+  isViewingHistory = false,
+  readOnly = false,
+  promotion = null,
+  onPromotionSelect,
+  onPromotionCancel,
+  animationDuration = 0,
+  lastMove = null,
+  annotations = [],
+  onAnnotationsChange,
+  engineAnnotations = [],
+  premoves = [],
+  onPremovesCancel,
+  onPieceDrop
 }) => {
   const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
   const ranks = ['8', '7', '6', '5', '4', '3', '2', '1'];
+  const boardRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // The arrow or circle being drawn with the right button held down
+  const [drawing, setDrawing] = useState<BoardAnnotation & { pointerId: number } | null>(null);
+  const previousBoardRef = useRef(board);
+  // A dropped piece is already where it belongs and must not slide in again
+  const skipAnimationRef = useRef(false);
+
+  // Runs before paint, so the moved piece never flashes on its new square first
+  useLayoutEffect(() => {
+    const previous = previousBoardRef.current;
+    previousBoardRef.current = board;
+    if (previous === board) return;
+    if (skipAnimationRef.current) {
+      skipAnimationRef.current = false;
+      return;
+    }
+    const boardElement = boardRef.current;
+    if (animationDuration <= 0 || !boardElement) return;
+
+    const squareSize = boardElement.clientWidth / 8;
+    const direction = isFlipped ? -1 : 1;
+    for (const { from, to } of findMovedPieces(previous, board)) {
+      const pieceElement = boardElement.querySelector<HTMLElement>(`[data-square="${to}"] [data-piece]`);
+      if (!pieceElement) continue;
+      const dx = (from.charCodeAt(0) - to.charCodeAt(0)) * squareSize * direction;
+      const dy = (Number(to[1]) - Number(from[1])) * squareSize * direction;
+      pieceElement.animate(
+        [
+          { transform: `translate(${dx}px, ${dy}px)`, zIndex: 10 },
+          { transform: 'translate(0, 0)', zIndex: 10 }
+        ],
+        { duration: animationDuration, easing: 'ease-out' }
+      );
+    }
+  }, [board, animationDuration, isFlipped]);
+
+  // Map a viewport position to the square under it, if any
+  const getSquareAt = (x: number, y: number): string | null => {
+    const rect = boardRef.current?.getBoundingClientRect();
+    if (!rect || x < rect.left || x >= rect.right || y < rect.top || y >= rect.bottom) {
+      return null;
+    }
+    const column = Math.floor(((x - rect.left) / rect.width) * 8);
+    const row = Math.floor(((y - rect.top) / rect.height) * 8);
+    const fileIndex = isFlipped ? 7 - column : column;
+    const rankIndex = isFlipped ? 7 - row : row;
+    return `${files[fileIndex]}${ranks[rankIndex]}`;
+  };
+
+  // A press works like a click straight away, so click-to-move is unchanged;
+  // pressing a piece additionally arms a drag that starts once the pointer moves
+  const handleSquarePointerDown = (square: string, piece: string | null, event: React.PointerEvent) => {
+    if (event.button === 2 && onPremovesCancel) {
+      onPremovesCancel();
+      return;
+    }
+    if (event.button === 2 && onAnnotationsChange) {
+      boardRef.current?.setPointerCapture(event.pointerId);
+      setDrawing({ from: square, to: square, color: getAnnotationColor(event), pointerId: event.pointerId });
+      return;
+    }
+    if (event.button !== 0) return;
+    if (annotations.length > 0) {
+      onAnnotationsChange?.([]);
+    }
+    if (readOnly || promotion) return;
+    // Pieces being set up only count as clicked once the press turns out not to be a drag
+    if (onPieceDrop) {
+      if (!piece) {
+        onSquareClick(square);
+        return;
+      }
+      boardRef.current?.setPointerCapture(event.pointerId);
+      setDrag({
+        from: square,
+        piece,
+        pointerId: event.pointerId,
+        startX: event.clientX,
+        startY: event.clientY,
+        x: event.clientX,
+        y: event.clientY,
+        isDragging: false,
+        wasSelected: false
+      });
+      return;
+    }
+    const wasSelected = selectedSquare === square;
+    if (!wasSelected) {
+      onSquareClick(square);
+    }
+    if (piece && !validMoves.includes(square)) {
+      boardRef.current?.setPointerCapture(event.pointerId);
+      setDrag({
+        from: square,
+        piece,
+        pointerId: event.pointerId,
+        startX: event.clientX,
+        startY: event.clientY,
+        x: event.clientX,
+        y: event.clientY,
+        isDragging: false,
+        wasSelected
+      });
+    } else if (wasSelected) {
+      onSquareClick(square);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (drawing && event.pointerId === drawing.pointerId) {
+      const target = getSquareAt(event.clientX, event.clientY);
+      if (target && target !== drawing.to) {
+        setDrawing({ ...drawing, to: target });
+      }
+      return;
+    }
+    if (!drag || event.pointerId !== drag.pointerId) return;
+    const isDragging = drag.isDragging ||
+      Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY) > DRAG_THRESHOLD;
+    setDrag({ ...drag, x: event.clientX, y: event.clientY, isDragging });
+  };
+
+  // Drawing the same arrow or circle again removes it
+  const finishDrawing = ({ from, to, color }: BoardAnnotation) => {
+    const existing = annotations.find(annotation => annotation.from === from && annotation.to === to);
+    const others = annotations.filter(annotation => annotation !== existing);
+    onAnnotationsChange?.(existing?.color === color ? others : [...others, { from, to, color }]);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (drawing && event.pointerId === drawing.pointerId) {
+      setDrawing(null);
+      finishDrawing(drawing);
+      return;
+    }
+    if (!drag || event.pointerId !== drag.pointerId) return;
+    setDrag(null);
+    if (!drag.isDragging) {
+      if (drag.wasSelected || onPieceDrop) {
+        onSquareClick(drag.from);
+      }
+      return;
+    }
+    if (onPieceDrop) {
+      const target = getSquareAt(event.clientX, event.clientY);
+      if (target !== drag.from) {
+        skipAnimationRef.current = !!target;
+        onPieceDrop(drag.from, target);
+      }
+      return;
+    }
+    // Drops anywhere but a legal target snap back and keep the piece selected
+    const target = getSquareAt(event.clientX, event.clientY);
+    if (target && target !== drag.from && selectedSquare === drag.from && validMoves.includes(target)) {
+      skipAnimationRef.current = true;
+      onSquareClick(target);
+    }
+  };
+
+  const handlePointerCancel = () => {
+    setDrag(null);
+    setDrawing(null);
+  };
+
+  // Only a piece the player was allowed to select can be dragged
+  const activeDrag = drag?.isDragging && (onPieceDrop || selectedSquare === drag.from) ? drag : null;
+  const dragOverSquare = activeDrag ? getSquareAt(activeDrag.x, activeDrag.y) : null;
 
   const renderCoordinates = () => {
     const displayFiles = isFlipped ? [...files].reverse() : files;
@@ -128,6 +514,27 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
     );
   };
 
+  // Drawn outside the board's overflow clip, centred on the pointer
+  const renderDraggedPiece = ({ piece, x, y }: DragState) => {
+    const boardElement = boardRef.current;
+    if (!boardElement) return null;
+    const rect = boardElement.getBoundingClientRect();
+    const size = rect.width / 8;
+    return (
+      <div
+        className="absolute z-50 pointer-events-none"
+        style={{
+          width: size,
+          height: size,
+          left: x - rect.left + boardElement.offsetLeft - size / 2,
+          top: y - rect.top + boardElement.offsetTop - size / 2
+        }}
+      >
+        <ChessPiece piece={piece} />
+      </div>
+    );
+  };
+
   const renderBoard = () => {
     const squares = [];
     
@@ -152,24 +559,27 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
         const isLight = (rankIndex + fileIndex) % 2 === 0;
         const isCheckmate = checkmateSquare === square;
         const isKingInCheck = isInCheck && piece && piece.type === 'k';
-
-        const canMove = mode === 'local' || 
-                       (mode === 'ai') || 
-                       (mode === 'online' && playerColor && 
-                        ((playerColor === 'white' && piece && piece.color === 'w') || 
-                         (playerColor === 'black' && piece && piece.color === 'b')));
+        const pieceCode = piece ? `${piece.color}${piece.type}` : null;
+        const isLastMove = lastMove?.from === square || lastMove?.to === square;
+        const isPremove = premoves.some(premove => premove.from === square || premove.to === square);
 
         squares.push(
           <ChessSquare
             key={square}
+            square={square}
             isLight={isLight}
             isSelected={isSelected}
             isValidMove={isValidMove}
             isCheckmate={isCheckmate}
             isKingInCheck={isKingInCheck}
-            onClick={() => onSquareClick(square)}
+            isReadOnly={readOnly}
+            isDragSource={activeDrag?.from === square}
+            isDragOver={dragOverSquare === square && (isValidMove || !!onPieceDrop)}
+            isLastMove={isLastMove}
+            isPremove={isPremove}
+            onPointerDown={(event) => handleSquarePointerDown(square, pieceCode, event)}
           >
-            {piece && <ChessPiece piece={`${piece.color}${piece.type}`} />}
+            {pieceCode && <ChessPiece piece={pieceCode} />}
           </ChessSquare>
         );
       }
@@ -182,14 +592,34 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
     <div className="relative mx-auto fade-in w-full max-w-fit">
       <div className="relative p-1 sm:p-2 md:p-4 lg:p-6">
         {renderCoordinates()}
-        <div className={cn(
-          "w-80 h-80 md:w-96 md:h-96 lg:w-[420px] lg:h-[420px] grid grid-cols-8 border-2 rounded-lg overflow-hidden shadow-lg bg-card mx-auto",
-          isViewingHistory 
-            ? "border-orange-300 dark:border-orange-700 ring-2 ring-orange-200 dark:ring-orange-800" 
-            : "border-border"
-        )}>
+        <div
+          ref={boardRef}
+          className={cn(
+            "relative w-80 h-80 md:w-96 md:h-96 lg:w-[420px] lg:h-[420px] grid grid-cols-8 border-2 rounded-lg overflow-hidden shadow-lg bg-card mx-auto touch-none",
+            isViewingHistory 
+              ? "border-orange-300 dark:border-orange-700 ring-2 ring-orange-200 dark:ring-orange-800" 
+              : "border-border"
+          )}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          onContextMenu={(event) => event.preventDefault()}
+        >
           {renderBoard()}
+          <AnnotationLayer
+            annotations={[...engineAnnotations, ...annotations, ...(drawing ? [drawing] : [])]}
+            isFlipped={isFlipped}
+          />
+          {promotion && onPromotionSelect && (
+            <PromotionPicker
+              promotion={promotion}
+              isFlipped={isFlipped}
+              onSelect={onPromotionSelect}
+              onCancel={() => onPromotionCancel?.()}
+            />
+          )}
         </div>
+        {activeDrag && renderDraggedPiece(activeDrag)}
         {isViewingHistory && (
           <div className="absolute -top-2 -right-2 bg-orange-500 text-white text-xs px-2 py-1 rounded-full font-medium animate-pulse">
             History
@@ -201,5 +631,6 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
 };
 
 export default ChessBoard;
+export { ChessPiece };
 
 
@@ -10,21 +10,109 @@ import {
   Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle
 } from '../ui';
 import { 
-  Bot, Users, Monitor, Trophy, Star, Zap, Settings, Info, Crown, Award, Target,
-  ArrowLeft, Wifi, WifiOff, Copy, Check, Plus, LogIn, Clock, Play,
-  Sun, Moon, Rotate3D, Handshake, Flag, Github, Heart, Volume2, VolumeX
+  Bot, Users, Monitor, Trophy, Star, Zap, Settings, Info,
+  ArrowLeft, Wifi, WifiOff, Copy, Check, Plus, LogIn, Clock, Play, Eye, Search, Swords, X, RotateCcw,
+  MessageSquare, Send, Undo2, Activity, Lightbulb,
+  Sun, Moon, Rotate3D, Handshake, Flag, Github, Heart, Volume2, VolumeX, Download, Upload, Puzzle, Grid3x3, GitBranch
 } from 'lucide-react';
-import { Chess } from 'chess.js';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
 import { io, Socket } from 'socket.io-client';
+import { useLocation, useNavigate } from 'react-router-dom';
 import ChessBoard from './ChessBoard';
 import { useToast } from '@/hooks/use-toast';
 import { cn, playSound } from '../../lib/utils';
-import { useStockfish } from '../../hooks/useStockfish';
+import {
+  useStockfish, AI_RATING_MIN, AI_RATING_MAX, AI_RATING_PRESETS, DEFAULT_AI_RATING, getAiRatingLabel
+} from '../../hooks/useStockfish';
+import { useEngineAnalysis } from '../../hooks/useEngineAnalysis';
+import { useGameReview, GameReview, MoveClassification } from '../../hooks/useGameReview';
+import { useMoveAssistant, Hint } from '../../hooks/useMoveAssistant';
+import { AnalysisLine, EngineScore, getEngineInfo, isAbortError } from '../../utils/stockfish';
+import { Area, AreaChart, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { buildPgn, downloadPgn, getPgnResult, ImportedGame, parsePgn } from '../../utils/pgn';
+import { getPositionError } from '../../utils/position';
 import config from '../../config';
+import { AnalysisLaunch } from './AnalysisBoard';
 
 export type GameMode = 'local' | 'ai' | 'online';
 export type GameState = 'menu' | 'playing';
 
+// Router state the board editor sends to start a game from the edited position
+export type EditorLaunch = { fen: string; mode: 'local' | 'ai' };
+
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+export type PendingPromotion = { from: string; to: string; color: 'w' | 'b' };
+export type LastMove = { from: string; to: string };
+
+// A move queued while the opponent is thinking; promotions always become a queen
+export type Premove = { from: string; to: string };
+
+export type AnnotationColor = 'green' | 'red' | 'blue' | 'yellow';
+// A right-click drawing on the board; from and to are the same square for a circle
+export type BoardAnnotation = { from: string; to: string; color: AnnotationColor };
+
+// Online time control in seconds, mirrored from the server's room
+export type TimeControl = { initial: number; increment: number };
+// Remaining time in milliseconds as reported by the server
+export type ClockSnapshot = { white: number; black: number };
+
+const TIME_CONTROL_PRESETS: { label: string; timeControl: TimeControl }[] = [
+  { label: '3 + 2', timeControl: { initial: 180, increment: 2 } },
+  { label: '5 + 0', timeControl: { initial: 300, increment: 0 } },
+  { label: '10 + 0', timeControl: { initial: 600, increment: 0 } },
+  { label: '15 + 10', timeControl: { initial: 900, increment: 10 } }
+];
+
+const DEFAULT_TIME_CONTROL = TIME_CONTROL_PRESETS[2].timeControl;
+
+export type ColorPreference = 'white' | 'black' | 'random';
+
+// An open challenge as listed in the lobby
+export type LobbySeek = {
+  id: string;
+  name: string;
+  time_control: TimeControl;
+  color: ColorPreference;
+  created_at: number;
+};
+
+const formatTimeControl = ({ initial, increment }: TimeControl) => `${initial / 60} + ${increment}`;
+
+export type ChatMessage = {
+  id: string;
+  sender: string;
+  role: 'white' | 'black' | 'spectator';
+  text: string;
+  timestamp: number;
+};
+
+// Must match the server's limit
+const CHAT_MESSAGE_MAX_LENGTH = 200;
+
+const QUICK_CHAT_MESSAGES = ['Good luck!', 'Have fun!', 'Nice move!', 'Well played!', 'Thanks for the game!', 'Oops'];
+
+// The online seat survives a page refresh so the player can rejoin a running game
+type OnlineSeat = { roomCode: string; seatToken: string };
+
+const ONLINE_SEAT_KEY = 'chess-online-seat';
+
+const loadOnlineSeat = (): OnlineSeat | null => {
+  try {
+    const stored = sessionStorage.getItem(ONLINE_SEAT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const saveOnlineSeat = (seat: OnlineSeat) => {
+  sessionStorage.setItem(ONLINE_SEAT_KEY, JSON.stringify(seat));
+};
+
+const clearOnlineSeat = () => {
+  sessionStorage.removeItem(ONLINE_SEAT_KEY);
+};
+
 type Theme = 'dark' | 'light';
 
 type ThemeProviderProps = {
@@ -83,6 +171,71 @@ const useTheme = () => {
   return context;
 };
 
+type BoardSettings = {
+  animationsEnabled: boolean;
+  // Length of a piece's slide between squares in milliseconds
+  animationDuration: number;
+  // How many moves may be queued while waiting for the opponent; 0 turns premoves off
+  maxPremoves: number;
+};
+
+type BoardSettingsState = BoardSettings & {
+  updateBoardSettings: (settings: Partial<BoardSettings>) => void;
+};
+
+const DEFAULT_BOARD_SETTINGS: BoardSettings = { animationsEnabled: true, animationDuration: 200, maxPremoves: 1 };
+const BOARD_SETTINGS_KEY = 'chess-board-settings';
+
+const BoardSettingsContext = createContext<BoardSettingsState>({
+  ...DEFAULT_BOARD_SETTINGS,
+  updateBoardSettings: () => null,
+});
+
+const loadBoardSettings = (): BoardSettings => {
+  try {
+    return { ...DEFAULT_BOARD_SETTINGS, ...JSON.parse(localStorage.getItem(BOARD_SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_BOARD_SETTINGS;
+  }
+};
+
+function BoardSettingsProvider({ children }: { children: React.ReactNode }) {
+  const [settings, setSettings] = useState<BoardSettings>(loadBoardSettings);
+
+  const value = {
+    ...settings,
+    updateBoardSettings: (changes: Partial<BoardSettings>) => {
+      const next = { ...settings, ...changes };
+      localStorage.setItem(BOARD_SETTINGS_KEY, JSON.stringify(next));
+      setSettings(next);
+    },
+  };
+
+  return (
+    <BoardSettingsContext.Provider value={value}>
+      {children}
+    </BoardSettingsContext.Provider>
+  );
+}
+
+const useBoardSettings = () => useContext(BoardSettingsContext);
+
+// Follows the operating system's "reduce motion" preference as it changes
+const usePrefersReducedMotion = () => {
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(
+    () => window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  );
+
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const handleChange = () => setPrefersReducedMotion(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  return prefersReducedMotion;
+};
+
 const useIsMobile = () => {
   const [isMobile, setIsMobile] = useState(false);
 
@@ -147,7 +300,7 @@ const SocketProvider = ({ children }: { children: React.ReactNode }) => {
       forceNew: true,
       autoConnect: true,
       reconnection: true,
-      reconnectionAttempts: 3,
+      reconnectionAttempts: 10,
       reconnectionDelay: 2000,
       upgrade: false
     });
@@ -158,19 +311,31 @@ const SocketProvider = ({ children }: { children: React.ReactNode }) => {
     };
   }, []);
 
+  // Children may call useSocket on their first render (e.g. when rejoining after a refresh)
   return (
     <SocketContext.Provider value={socket}>
-      {children}
+      {socket && children}
     </SocketContext.Provider>
   );
 };
 
-const useOnlineGame = ({ onMoveReceived, onGameOver, onDrawOffered, onGameStart }: any) => {
+const useOnlineGame = ({ onMoveReceived, onGameOver, onDrawOffered, onGameStart, onGameResync, onRematchStarted }: any) => {
   const socket = useSocket();
   const [roomCode, setRoomCode] = useState<string>('');
   const [playerColor, setPlayerColor] = useState<'white' | 'black' | null>(null);
   const [isConnected, setIsConnected] = useState(socket.connected);
   const [opponent, setOpponent] = useState<string>('');
+  const [timeControl, setTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
+  const [isSpectator, setIsSpectator] = useState(false);
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const [spectatedPlayers, setSpectatedPlayers] = useState<{ white: string; black: string } | null>(null);
+  const [seeks, setSeeks] = useState<LobbySeek[]>([]);
+  const [mySeekId, setMySeekId] = useState<string | null>(null);
+  const [isQuickPairing, setIsQuickPairing] = useState(false);
+  const [rematchStatus, setRematchStatus] = useState<'idle' | 'offered' | 'received'>('idle');
+  const [takebackStatus, setTakebackStatus] = useState<'idle' | 'requested' | 'received'>('idle');
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [playerName] = useState(() => `Player${Math.floor(Math.random() * 1000)}`);
   const { playSound } = useSound();
   const { toast } = useToast();
 
@@ -178,6 +343,11 @@ const useOnlineGame = ({ onMoveReceived, onGameOver, onDrawOffered, onGameStart
     const handleConnect = () => {
       console.log('✅ Connected to Socket.IO server successfully');
       setIsConnected(true);
+      // A new connection gets a new socket id, so reclaim our seat if we hold one
+      const seat = loadOnlineSeat();
+      if (seat) {
+        socket.emit('rejoin_room', { room_id: seat.roomCode, seat_token: seat.seatToken });
+      }
     };
     const handleDisconnect = () => {
       console.log('❌ Disconnected from Socket.IO server');
@@ -188,28 +358,156 @@ const useOnlineGame = ({ onMoveReceived, onGameOver, onDrawOffered, onGameStart
       setIsConnected(false);
     };
     const handleError = (message: string) => toast({ title: 'Error', description: message, variant: 'destructive' });
-      const handleRoomCreated = (data: { room_code: string, player_color: 'white' | 'black' }) => {
+      const handleRoomCreated = (data: { room_code: string, player_color: 'white' | 'black', time_control?: TimeControl, seat_token?: string }) => {
     setRoomCode(data.room_code);
     setPlayerColor(data.player_color);
+    if (data.time_control) setTimeControl(data.time_control);
+    if (data.seat_token) saveOnlineSeat({ roomCode: data.room_code, seatToken: data.seat_token });
+    setMySeekId(null);
+    setIsQuickPairing(false);
   };
-  const handleJoinedRoom = (data: { room_code: string, player_color: 'white' | 'black', opponent: string }) => {
+  const handleJoinedRoom = (data: { room_code: string, player_color: 'white' | 'black', opponent: string, time_control?: TimeControl, clock?: ClockSnapshot, seat_token?: string, start_fen?: string }) => {
     setRoomCode(data.room_code);
     setPlayerColor(data.player_color);
     setOpponent(data.opponent);
-    onGameStart(data.player_color);
+    if (data.time_control) setTimeControl(data.time_control);
+    if (data.seat_token) saveOnlineSeat({ roomCode: data.room_code, seatToken: data.seat_token });
+    setMySeekId(null);
+    setIsQuickPairing(false);
+    onGameStart(data.player_color, data.clock, data.start_fen);
+    playSound('move');
+  };
+  const handleRoomRejoined = (data: {
+    room_code: string,
+    player_color: 'white' | 'black',
+    opponent: string,
+    status: 'waiting' | 'playing' | 'finished',
+    reason: string | null,
+    time_control: TimeControl,
+    clock: ClockSnapshot,
+    moves: string[],
+    start_fen?: string,
+    spectators: number
+  }) => {
+    console.log('Rejoined room', data.room_code);
+    // The game ended while we were away; the seat is only kept for a rematch
+    if (data.status === 'finished') clearOnlineSeat();
+    setRoomCode(data.room_code);
+    setPlayerColor(data.player_color);
+    setOpponent(data.opponent);
+    setTimeControl(data.time_control);
+    setSpectatorCount(data.spectators);
+    onGameResync(data);
+  };
+  const handleSpectatorJoined = (data: {
+    room_code: string,
+    white: string,
+    black: string,
+    status: 'waiting' | 'playing' | 'finished',
+    reason: string | null,
+    time_control: TimeControl,
+    clock: ClockSnapshot,
+    moves: string[],
+    start_fen?: string
+  }) => {
+    console.log('Spectating room', data.room_code);
+    setRoomCode(data.room_code);
+    setIsSpectator(true);
+    setPlayerColor(null);
+    setSpectatedPlayers({ white: data.white, black: data.black });
+    setTimeControl(data.time_control);
+    onGameResync(data);
+  };
+  const handleSpectatorCount = (data: { count: number }) => setSpectatorCount(data.count);
+  const handleSeekCreated = (data: { seek_id: string }) => setMySeekId(data.seek_id);
+  const handleChatHistory = (data: { messages: ChatMessage[] }) => setChatMessages(data.messages);
+  const handleChatMessage = (message: ChatMessage) => setChatMessages(prev => [...prev, message]);
+  const handleTakebackRequested = (data: { color: 'white' | 'black' }) => {
+    if (isSpectator) {
+      toast({ title: 'Takeback requested', description: `${data.color === 'black' ? 'Black' : 'White'} asked to take back a move` });
+      return;
+    }
+    setTakebackStatus('received');
+  };
+  const handleTakebackDeclined = () => {
+    setTakebackStatus('idle');
+    toast({ title: 'Takeback declined' });
+  };
+  const handleTakebackApplied = (data: { clock: ClockSnapshot, moves: string[] }) => {
+    setTakebackStatus('idle');
+    onGameResync({ status: 'playing', clock: data.clock, moves: data.moves });
+    toast({ title: 'Move taken back', duration: 3000 });
+  };
+  // A new move makes any pending takeback request stale
+  const handleMoveReceived = (data: unknown) => {
+    setTakebackStatus('idle');
+    onMoveReceived(data);
+  };
+  const handleRematchOffered = () => {
+    setRematchStatus('received');
+    toast({ title: 'Rematch offered', description: 'Your opponent wants a rematch', duration: 5000 });
+  };
+  const handleRematchDeclined = () => {
+    setRematchStatus('idle');
+    toast({ title: 'Rematch declined' });
+  };
+  const handleRematchStarted = (data: {
+    player_color?: 'white' | 'black',
+    opponent?: string,
+    white?: string,
+    black?: string,
+    clock: ClockSnapshot,
+    seat_token?: string,
+    start_fen?: string
+  }) => {
+    setRematchStatus('idle');
+    setTakebackStatus('idle');
+    if (data.player_color) {
+      setPlayerColor(data.player_color);
+      setOpponent(data.opponent);
+    } else {
+      setSpectatedPlayers({ white: data.white, black: data.black });
+    }
+    if (data.seat_token) saveOnlineSeat({ roomCode, seatToken: data.seat_token });
+    onRematchStarted(data.clock, data.start_fen);
     playSound('move');
   };
-  const handleOpponentJoined = (data: { opponent: string }) => {
+  const handleRejoinFailed = (data: { message: string }) => {
+    clearOnlineSeat();
+    toast({ title: 'Could not rejoin game', description: data.message, variant: 'destructive' });
+  };
+  const handleOpponentDisconnected = (data: { player: string, grace_period: number }) => {
+    toast({
+      title: 'Opponent disconnected',
+      description: `Waiting ${Math.round(data.grace_period / 1000)} seconds for ${data.player} to reconnect`,
+      duration: 5000,
+    });
+  };
+  const handleOpponentReconnected = (data: { player: string }) => {
+    toast({ title: 'Opponent reconnected', description: `${data.player} is back`, duration: 3000 });
+  };
+  const handleOpponentJoined = (data: { opponent: string, time_control?: TimeControl, clock?: ClockSnapshot, start_fen?: string, seat_token?: string }) => {
     setOpponent(data.opponent);
-    onGameStart(playerColor);
+    if (data.time_control) setTimeControl(data.time_control);
+    if (data.seat_token) saveOnlineSeat({ roomCode, seatToken: data.seat_token });
+    onGameStart(playerColor, data.clock, data.start_fen);
     playSound('move');
   };
+  // An unfinished game is settled by the server's game_ended; this only reports the empty seat
   const handleOpponentLeft = () => {
-    onGameOver('Opponent left');
+    clearOnlineSeat();
+    toast({ title: isSpectator ? 'A player left the game' : 'Opponent left the room' });
     setOpponent('');
   };
-  const handleDrawAccepted = () => onGameOver('Draw accepted');
   const handleDrawDeclined = () => toast({ title: 'Draw offer declined' });
+  const handleDrawOffered = (data?: { color?: 'white' | 'black' }) => {
+    console.log('Draw offered event received');
+    if (isSpectator) {
+      toast({ title: 'Draw offered', description: `${data?.color === 'black' ? 'Black' : 'White'} has offered a draw` });
+      return;
+    }
+    onDrawOffered();
+  };
 
     socket.on('connect', handleConnect);
     socket.on('disconnect', handleDisconnect);
@@ -218,22 +516,37 @@ const useOnlineGame = ({ onMoveReceived, onGameOver, onDrawOffered, onGameStart
     socket.on('room_created', handleRoomCreated);
     socket.on('room_joined', handleJoinedRoom);
     socket.on('opponent_joined', handleOpponentJoined);
-    socket.on('chess_move', onMoveReceived);
+    socket.on('room_rejoined', handleRoomRejoined);
+    socket.on('rejoin_failed', handleRejoinFailed);
+    socket.on('spectator_joined', handleSpectatorJoined);
+    socket.on('spectator_count', handleSpectatorCount);
+    socket.on('lobby_seeks', setSeeks);
+    socket.on('seek_created', handleSeekCreated);
+    socket.on('quick_pair_waiting', () => setIsQuickPairing(true));
+    socket.on('chat_history', handleChatHistory);
+    socket.on('chat_message', handleChatMessage);
+    socket.on('rematch_offered', handleRematchOffered);
+    socket.on('rematch_declined', handleRematchDeclined);
+    socket.on('rematch_started', handleRematchStarted);
+    socket.on('opponent_disconnected', handleOpponentDisconnected);
+    socket.on('opponent_reconnected', handleOpponentReconnected);
+    socket.on('takeback_requested', handleTakebackRequested);
+    socket.on('takeback_declined', handleTakebackDeclined);
+    socket.on('takeback_applied', handleTakebackApplied);
+    socket.on('chess_move', handleMoveReceived);
     socket.on('player_disconnected', handleOpponentLeft);
-    socket.on('draw_offered', () => {
-      console.log('Draw offered event received');
-      onDrawOffered();
-    });
+    socket.on('draw_offered', handleDrawOffered);
     socket.on('draw_response', (data) => {
       console.log('Draw response received:', data);
-      if (data.accepted) {
-        handleDrawAccepted();
-      } else {
+      if (!data.accepted) {
         handleDrawDeclined();
       }
     });
-    socket.on('opponent_resigned', () => onGameOver('Opponent resigned'));
-    socket.on('game_ended', (data) => onGameOver(data.reason || 'Game ended'));
+    socket.on('game_ended', (data) => {
+      clearOnlineSeat();
+      setTakebackStatus('idle');
+      onGameOver(data.reason || 'Game ended');
+    });
 
     return () => {
       socket.off('connect', handleConnect);
@@ -243,30 +556,91 @@ const useOnlineGame = ({ onMoveReceived, onGameOver, onDrawOffered, onGameStart
       socket.off('room_created', handleRoomCreated);
       socket.off('room_joined', handleJoinedRoom);
       socket.off('opponent_joined', handleOpponentJoined);
-      socket.off('chess_move', onMoveReceived);
+      socket.off('room_rejoined', handleRoomRejoined);
+      socket.off('rejoin_failed', handleRejoinFailed);
+      socket.off('spectator_joined', handleSpectatorJoined);
+      socket.off('spectator_count', handleSpectatorCount);
+      socket.off('lobby_seeks', setSeeks);
+      socket.off('seek_created', handleSeekCreated);
+      socket.off('quick_pair_waiting');
+      socket.off('chat_history', handleChatHistory);
+      socket.off('chat_message', handleChatMessage);
+      socket.off('rematch_offered', handleRematchOffered);
+      socket.off('rematch_declined', handleRematchDeclined);
+      socket.off('rematch_started', handleRematchStarted);
+      socket.off('opponent_disconnected', handleOpponentDisconnected);
+      socket.off('opponent_reconnected', handleOpponentReconnected);
+      socket.off('takeback_requested', handleTakebackRequested);
+      socket.off('takeback_declined', handleTakebackDeclined);
+      socket.off('takeback_applied', handleTakebackApplied);
+      socket.off('chess_move', handleMoveReceived);
       socket.off('player_disconnected', handleOpponentLeft);
-      socket.off('draw_offered', onDrawOffered);
+      socket.off('draw_offered', handleDrawOffered);
       socket.off('draw_response');
-      socket.off('opponent_resigned');
       socket.off('game_ended');
     };
-  }, [socket, onMoveReceived, onGameOver, onDrawOffered, onGameStart, playerColor, playSound, toast]);
+  }, [socket, onMoveReceived, onGameOver, onDrawOffered, onGameStart, onGameResync, onRematchStarted, roomCode, playerColor, isSpectator, playSound, toast]);
 
-  const createRoom = useCallback(() => {
-    const playerName = `Player${Math.floor(Math.random() * 1000)}`;
-    socket?.emit('create_room', { playerName });
+  // Reclaim a seat held from before a page refresh; later reconnects go through handleConnect
+  useEffect(() => {
+    const seat = loadOnlineSeat();
+    if (seat && socket.connected) {
+      socket.emit('rejoin_room', { room_id: seat.roomCode, seat_token: seat.seatToken });
+    }
   }, [socket]);
 
-  const joinRoom = useCallback((code: string) => {
-    const playerName = `Player${Math.floor(Math.random() * 1000)}`;
-    socket?.emit('join_room', { room_id: code, player_name: playerName });
+  // Spectators free their place when leaving the game screen; players give theirs up through leave_room
+  useEffect(() => {
+    return () => {
+      socket.emit('stop_spectating');
+    };
   }, [socket]);
 
-  const sendMove = useCallback((move: { from: string; to: string; }) => {
+  // Follow the lobby's open seeks while we are not in a room
+  useEffect(() => {
+    if (!isConnected || roomCode) return;
+    socket.emit('subscribe_lobby');
+    return () => {
+      socket.emit('unsubscribe_lobby');
+    };
+  }, [socket, isConnected, roomCode]);
+
+  const createRoom = useCallback((roomTimeControl: TimeControl = DEFAULT_TIME_CONTROL, startFen?: string) => {
+    socket?.emit('create_room', { playerName, timeControl: roomTimeControl, startFen });
+  }, [socket, playerName]);
+
+  const joinRoom = useCallback((code: string, spectate = false) => {
+    socket?.emit('join_room', { room_id: code, player_name: playerName, spectate });
+  }, [socket, playerName]);
+
+  const createSeek = useCallback((seekTimeControl: TimeControl, color: ColorPreference) => {
+    socket?.emit('create_seek', { playerName, timeControl: seekTimeControl, color });
+  }, [socket, playerName]);
+
+  const cancelSeek = useCallback(() => {
+    socket?.emit('cancel_seek');
+    setMySeekId(null);
+  }, [socket]);
+
+  const acceptSeek = useCallback((seekId: string) => {
+    socket?.emit('accept_seek', { seek_id: seekId, playerName });
+  }, [socket, playerName]);
+
+  const quickPair = useCallback((pairTimeControl: TimeControl) => {
+    socket?.emit('quick_pair', { playerName, timeControl: pairTimeControl });
+  }, [socket, playerName]);
+
+  const cancelQuickPair = useCallback(() => {
+    socket?.emit('cancel_quick_pair');
+    setIsQuickPairing(false);
+  }, [socket]);
+
+  const sendMove = useCallback((move: { from: string; to: string; promotion?: PromotionPiece }) => {
     socket?.emit('make_move', { move });
   }, [socket]);
 
   const resignGame = useCallback(() => {
+    clearOnlineSeat();
     socket?.emit('resign_game');
   }, [socket]);
 
@@ -280,6 +654,30 @@ const useOnlineGame = ({ onMoveReceived, onGameOver, onDrawOffered, onGameStart
     socket?.emit('draw_response', { accepted: false });
   }, [socket]);
 
+  const sendChatMessage = useCallback((text: string) => {
+    socket?.emit('chat_message', { text });
+  }, [socket]);
+
+  const requestTakeback = useCallback(() => {
+    setTakebackStatus('requested');
+    socket?.emit('request_takeback');
+  }, [socket]);
+
+  const respondToTakeback = useCallback((accepted: boolean) => {
+    setTakebackStatus('idle');
+    socket?.emit('takeback_response', { accepted });
+  }, [socket]);
+
+  const offerRematch = useCallback(() => {
+    setRematchStatus('offered');
+    socket?.emit('offer_rematch');
+  }, [socket]);
+
+  const respondToRematch = useCallback((accepted: boolean) => {
+    setRematchStatus('idle');
+    socket?.emit('rematch_response', { accepted });
+  }, [socket]);
+
   const offerDraw = useCallback(() => {
     console.log('Sending draw offer');
     socket?.emit('offer_draw');
@@ -288,11 +686,32 @@ const useOnlineGame = ({ onMoveReceived, onGameOver, onDrawOffered, onGameStart
   return {
     socket,
     roomCode,
+    playerName,
     playerColor,
     isConnected,
     opponent,
+    timeControl,
+    isSpectator,
+    spectatorCount,
+    spectatedPlayers,
+    seeks,
+    mySeekId,
+    isQuickPairing,
     createRoom,
     joinRoom,
+    createSeek,
+    cancelSeek,
+    acceptSeek,
+    quickPair,
+    cancelQuickPair,
+    rematchStatus,
+    offerRematch,
+    respondToRematch,
+    takebackStatus,
+    requestTakeback,
+    respondToTakeback,
+    chatMessages,
+    sendChatMessage,
     sendMove,
     resignGame,
     acceptDraw,
@@ -301,20 +720,136 @@ const useOnlineGame = ({ onMoveReceived, onGameOver, onDrawOffered, onGameStart
   };
 };
 
-const useChessEngine = ({ mode, aiDifficulty, onGameOver, onPlayerChange }: any) => {
-  const [game] = useState(() => new Chess());
+type BoardCell = { type: string; color: 'w' | 'b' } | null;
+
+const squareToIndex = (square: string) => [8 - Number(square[1]), square.charCodeAt(0) - 97];
+const indexToSquare = (row: number, column: number) => `${String.fromCharCode(97 + column)}${8 - row}`;
+
+// The board as it will look once the queued premoves are played, castling rook and queening included
+const applyPremoves = (board: BoardCell[][], premoves: Premove[]) => {
+  const next = board.map(row => [...row]);
+  for (const { from, to } of premoves) {
+    const [fromRow, fromColumn] = squareToIndex(from);
+    const [toRow, toColumn] = squareToIndex(to);
+    const piece = next[fromRow][fromColumn];
+    if (!piece) continue;
+    next[fromRow][fromColumn] = null;
+    next[toRow][toColumn] = piece.type === 'p' && (toRow === 0 || toRow === 7) ? { ...piece, type: 'q' } : piece;
+    if (piece.type === 'k' && Math.abs(toColumn - fromColumn) === 2) {
+      const rookFrom = toColumn > fromColumn ? 7 : 0;
+      const rookTo = toColumn > fromColumn ? 5 : 3;
+      next[toRow][rookTo] = next[toRow][rookFrom];
+      next[toRow][rookFrom] = null;
+    }
+  }
+  return next;
+};
+
+// Squares a piece could reach once the opponent has moved. Anything may change before then,
+// so only the piece's pattern counts and other pieces never block it.
+const getPremoveTargets = (board: BoardCell[][], square: string): string[] => {
+  const [row, column] = squareToIndex(square);
+  const piece = board[row][column];
+  if (!piece) return [];
+  const targets: string[] = [];
+  const add = (r: number, c: number) => {
+    if (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color !== piece.color) {
+      targets.push(indexToSquare(r, c));
+    }
+  };
+  const slide = (directions: number[][]) => {
+    for (const [dr, dc] of directions) {
+      for (let step = 1; step < 8; step++) add(row + dr * step, column + dc * step);
+    }
+  };
+  const straight = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+  const diagonal = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+  switch (piece.type) {
+    case 'p': {
+      const forward = piece.color === 'w' ? -1 : 1;
+      add(row + forward, column);
+      if (row === (piece.color === 'w' ? 6 : 1)) add(row + forward * 2, column);
+      add(row + forward, column - 1);
+      add(row + forward, column + 1);
+      break;
+    }
+    case 'n':
+      for (const [dr, dc] of [[1, 2], [2, 1], [-1, 2], [-2, 1], [1, -2], [2, -1], [-1, -2], [-2, -1]]) {
+        add(row + dr, column + dc);
+      }
+      break;
+    case 'b':
+      slide(diagonal);
+      break;
+    case 'r':
+      slide(straight);
+      break;
+    case 'q':
+      slide([...straight, ...diagonal]);
+      break;
+    case 'k':
+      for (const [dr, dc] of [...straight, ...diagonal]) add(row + dr, column + dc);
+      if (column === 4 && row === (piece.color === 'w' ? 7 : 0)) {
+        add(row, 2);
+        add(row, 6);
+      }
+      break;
+  }
+  return targets;
+};
+
+const getLastMove = (game: Chess): LastMove | null => {
+  const move = game.history({ verbose: true }).slice(-1)[0];
+  return move ? { from: move.from, to: move.to } : null;
+};
+
+const PIECE_VALUES: Record<string, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+// Material count from White's point of view, in pawns
+const getMaterialBalance = (game: Chess) =>
+  game.board().flat().reduce((balance, piece) =>
+    piece ? balance + PIECE_VALUES[piece.type] * (piece.color === 'w' ? 1 : -1) : balance, 0);
+
+// The second FEN field names the side to move
+const getSideToMove = (fen: string) => fen.split(' ')[1] === 'b' ? 'Black' : 'White';
+
+// Games from a custom FEN may start on any move number and with Black to move,
+// in which case White's half of the first numbered row stays empty
+const getMoveNumbering = (fen: string) => {
+  const [, turn, , , , fullMove] = fen.split(' ');
+  return { firstMoveNumber: Number(fullMove) || 1, plyOffset: turn === 'b' ? 1 : 0 };
+};
+
+const useChessEngine = ({ mode, aiRating, aiColor = 'black', initialFen = DEFAULT_POSITION, onGameOver, onPlayerChange }: any) => {
+  const [game] = useState(() => new Chess(initialFen));
+  // The position the game started from; every replay of the move list begins here
+  const [startFen, setStartFen] = useState(() => game.fen());
   const [board, setBoard] = useState(game.board());
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [validMoves, setValidMoves] = useState<string[]>([]);
-  const [currentPlayer, setCurrentPlayer] = useState<'white' | 'black'>('white');
+  const [currentPlayer, setCurrentPlayer] = useState<'white' | 'black'>(() => game.turn() === 'w' ? 'white' : 'black');
   const [gameHistory, setGameHistory] = useState<string[]>([]);
-  const [isInCheck, setIsInCheck] = useState(false);
+  const [isInCheck, setIsInCheck] = useState(() => game.isCheck());
   const [checkmateSquare, setCheckmateSquare] = useState<string | null>(null);
   const [isViewingHistory, setIsViewingHistory] = useState(false);
   const [viewingMoveIndex, setViewingMoveIndex] = useState(-1);
+  // A pawn move to the last rank waits here until a piece is picked
+  const [pendingPromotion, setPendingPromotion] = useState<PendingPromotion | null>(null);
+  // The move that led to the position on the board, live or viewed from the history
+  const [lastMove, setLastMove] = useState<LastMove | null>(null);
   const { playSound } = useSound();
   const { getBestMove } = useStockfish();
   const [isAiThinking, setIsAiThinking] = useState(false);
+  // The search for the AI's move, aborted when the game is reset, rewound or left
+  const aiSearchRef = useRef<AbortController | null>(null);
+
+  const cancelAiMove = useCallback(() => {
+    aiSearchRef.current?.abort();
+    aiSearchRef.current = null;
+  }, []);
+
+  useEffect(() => cancelAiMove, [cancelAiMove]);
 
   const getValidMoves = (square: string | null) => {
     if (!square) return [];
@@ -340,6 +875,7 @@ const useChessEngine = ({ mode, aiDifficulty, onGameOver, onPlayerChange }: any)
     setCurrentPlayer(newPlayer);
     setGameHistory(game.history({ verbose: false }));
     setIsInCheck(game.isCheck());
+    setLastMove(getLastMove(game));
     onPlayerChange(newPlayer);
 
     if (game.isCheck()) {
@@ -362,16 +898,19 @@ const useChessEngine = ({ mode, aiDifficulty, onGameOver, onPlayerChange }: any)
         result = 'Game drawn by threefold repetition!';
         playSound('draw');
       } else {
-        result = 'Game drawn!';
+        result = 'Game drawn by the 50-move rule!';
         playSound('draw');
       }
-      onGameOver(result);
+      // Online results come from the server's game_ended so both boards agree
+      if (mode !== 'online') {
+        onGameOver(result);
+      }
     }
-  }, [game, onGameOver, onPlayerChange, playSound]);
+  }, [game, mode, onGameOver, onPlayerChange, playSound]);
 
-  const makeMove = useCallback((from: string, to: string) => {
+  const makeMove = useCallback((from: string, to: string, promotion: PromotionPiece = 'q') => {
     try {
-      const move = game.move({ from, to, promotion: 'q' });
+      const move = game.move({ from, to, promotion });
       if (move) {
         if (move.captured) playSound('capture');
         else playSound('move');
@@ -392,6 +931,12 @@ const useChessEngine = ({ mode, aiDifficulty, onGameOver, onPlayerChange }: any)
     }
 
     if (validMoves.includes(square)) {
+      const isPromotion = game.moves({ verbose: true })
+        .some(move => move.from === selectedSquare && move.to === square && move.promotion);
+      if (isPromotion) {
+        setPendingPromotion({ from: selectedSquare!, to: square, color: game.turn() });
+        return;
+      }
       if (makeMove(selectedSquare!, square)) {
         setSelectedSquare(null);
         setValidMoves([]);
@@ -406,49 +951,99 @@ const useChessEngine = ({ mode, aiDifficulty, onGameOver, onPlayerChange }: any)
     }
   }, [selectedSquare, validMoves, makeMove, game]);
 
+  const completePromotion = useCallback((piece: PromotionPiece) => {
+    if (!pendingPromotion) return;
+    makeMove(pendingPromotion.from, pendingPromotion.to, piece);
+    setPendingPromotion(null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+  }, [pendingPromotion, makeMove]);
+
+  const cancelPromotion = useCallback(() => setPendingPromotion(null), []);
+
   const makeAIMove = useCallback(async () => {
     if (game.isGameOver() || isAiThinking || isViewingHistory) return;
     setIsAiThinking(true);
+    const controller = new AbortController();
+    aiSearchRef.current = controller;
     try {
-      const bestMoveUci = await getBestMove(game.fen(), aiDifficulty);
+      const { bestMove: bestMoveUci } = await getBestMove(game.fen(), aiRating, controller.signal);
       if (bestMoveUci) {
         const from = bestMoveUci.substring(0, 2);
         const to = bestMoveUci.substring(2, 4);
-        makeMove(from, to);
+        // UCI appends the promotion piece as a fifth character, e.g. e7e8n
+        const promotion = bestMoveUci.charAt(4) as PromotionPiece | '';
+        makeMove(from, to, promotion || undefined);
       }
     } catch (error) {
-      console.error('AI move generation failed:', error);
+      if (!isAbortError(error)) {
+        console.error('AI move generation failed:', error);
+      }
     } finally {
       setIsAiThinking(false);
     }
-  }, [game, isAiThinking, isViewingHistory, getBestMove, aiDifficulty, makeMove]);
+  }, [game, isAiThinking, isViewingHistory, getBestMove, aiRating, makeMove]);
 
   useEffect(() => {
-    if (mode === 'ai' && currentPlayer === 'black' && !isAiThinking && !isViewingHistory && !game.isGameOver()) {
+    if (mode === 'ai' && currentPlayer === aiColor && !isAiThinking && !isViewingHistory && !game.isGameOver()) {
       const timer = setTimeout(() => makeAIMove(), 500);
       return () => clearTimeout(timer);
     }
-  }, [mode, currentPlayer, isAiThinking, makeAIMove, isViewingHistory, game]);
-
-  const resetGame = useCallback(() => {
-    game.reset();
+  }, [mode, currentPlayer, aiColor, isAiThinking, makeAIMove, isViewingHistory, game]);
+
+  // Start over from the given position, or from the one the current game started from
+  const resetGame = useCallback((fen: string = startFen) => {
+    cancelAiMove();
+    game.load(fen);
+    const firstPlayer = game.turn() === 'w' ? 'white' : 'black';
+    setStartFen(fen);
     setBoard(game.board());
     setSelectedSquare(null);
     setValidMoves([]);
-    setCurrentPlayer('white');
+    setCurrentPlayer(firstPlayer);
     setGameHistory([]);
-    setIsInCheck(false);
+    setIsInCheck(game.isCheck());
     setCheckmateSquare(null);
     setIsViewingHistory(false);
     setViewingMoveIndex(-1);
-    onPlayerChange('white');
-  }, [game, onPlayerChange]);
+    setPendingPromotion(null);
+    setLastMove(null);
+    onPlayerChange(firstPlayer);
+  }, [game, startFen, onPlayerChange, cancelAiMove]);
+
+  // Replace the current game with a move list received from elsewhere (e.g. the server after a rejoin)
+  const loadMoves = useCallback((moves: string[], fen: string = startFen) => {
+    cancelAiMove();
+    game.load(fen);
+    setStartFen(fen);
+    for (const move of moves) {
+      try {
+        game.move(move);
+      } catch (error) {
+        console.error('Error applying move:', move, error);
+        break;
+      }
+    }
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setCheckmateSquare(null);
+    setIsViewingHistory(false);
+    setViewingMoveIndex(-1);
+    setPendingPromotion(null);
+    updateGameState();
+  }, [game, startFen, updateGameState, cancelAiMove]);
+
+  // Undo the last plies of the live game, even while an earlier position is being viewed
+  const takeBack = useCallback((plies: number) => {
+    if (plies < 1 || plies > gameHistory.length) return;
+    loadMoves(gameHistory.slice(0, gameHistory.length - plies));
+  }, [gameHistory, loadMoves]);
 
   const navigateToMove = useCallback((moveIndex: number) => {
     if (moveIndex < -1 || moveIndex >= gameHistory.length) return;
     
-    // Reset to initial position
-    game.reset();
+    // Reset to the starting position
+    game.load(startFen);
     
     // Apply moves up to the specified index
     for (let i = 0; i <= moveIndex; i++) {
@@ -469,28 +1064,32 @@ const useChessEngine = ({ mode, aiDifficulty, onGameOver, onPlayerChange }: any)
     setCurrentPlayer(game.turn() === 'w' ? 'white' : 'black');
     setIsInCheck(game.isCheck());
     setCheckmateSquare(null);
+    setLastMove(getLastMove(game));
     setIsViewingHistory(moveIndex < gameHistory.length - 1);
     setViewingMoveIndex(moveIndex);
     onPlayerChange(game.turn() === 'w' ? 'white' : 'black');
     
     // If we're returning to the current position and it's AI's turn, add a small delay
-    if (moveIndex === gameHistory.length - 1 && mode === 'ai' && game.turn() === 'b') {
+    if (moveIndex === gameHistory.length - 1 && mode === 'ai' && game.turn() === aiColor.charAt(0)) {
       // Add a small delay to prevent immediate AI move
       setTimeout(() => {
         setIsViewingHistory(false);
       }, 100);
     }
-  }, [game, gameHistory, onPlayerChange, mode]);
+  }, [game, startFen, gameHistory, onPlayerChange, mode, aiColor]);
 
   const offerDraw = useCallback(() => {
     if (mode === 'ai') {
       const moveCount = game.history().length;
-      if (aiDifficulty === 'easy') return Math.random() < 0.4;
-      if (aiDifficulty === 'medium') return Math.random() < (moveCount > 40 ? 0.3 : 0.1);
+      // The AI never agrees to a draw while it is clearly ahead
+      const aiAdvantage = getMaterialBalance(game) * (aiColor === 'white' ? 1 : -1);
+      if (aiAdvantage >= 3) return false;
+      if (aiRating < 1200) return Math.random() < 0.4;
+      if (aiRating < 2000) return Math.random() < (moveCount > 40 ? 0.3 : 0.1);
       return Math.random() < (moveCount > 50 ? 0.2 : 0.05);
     }
     return false;
-  }, [mode, aiDifficulty, game]);
+  }, [mode, aiRating, aiColor, game]);
 
   return {
     board,
@@ -502,11 +1101,19 @@ const useChessEngine = ({ mode, aiDifficulty, onGameOver, onPlayerChange }: any)
     checkmateSquare,
     isViewingHistory,
     viewingMoveIndex,
+    lastMove,
     selectSquare,
     makeMove,
+    pendingPromotion,
+    completePromotion,
+    cancelPromotion,
     resetGame,
+    loadMoves,
+    takeBack,
     navigateToMove,
     offerDraw,
+    isAiThinking,
+    startFen,
     game
   };
 };
@@ -544,8 +1151,11 @@ const GameControls: React.FC<{
   onFlipBoard: () => void;
   onResign: () => void;
   onOfferDraw?: () => void;
+  onTakeback?: () => void;
+  onCopyPgn?: () => void;
+  onDownloadPgn?: () => void;
   isGameOver: boolean;
-}> = ({ onFlipBoard, onResign, onOfferDraw, isGameOver }) => (
+}> = ({ onFlipBoard, onResign, onOfferDraw, onTakeback, onCopyPgn, onDownloadPgn, isGameOver }) => (
   <Card className="panel border shadow-sm">
     <CardHeader className="pb-2">
       <CardTitle className="text-sm font-semibold">Game Controls</CardTitle>
@@ -566,15 +1176,218 @@ const GameControls: React.FC<{
           <Handshake className="h-3 w-3 mr-1" />
           Draw
         </Button>
+        <Button
+          onClick={onTakeback}
+          variant="outline"
+          size="sm"
+          className="flex-1 h-8 text-xs"
+          disabled={isGameOver || !onTakeback}
+        >
+          <Undo2 className="h-3 w-3 mr-1" />
+          Undo
+        </Button>
         <Button onClick={onResign} variant="destructive" size="sm" className="flex-1 h-8 text-xs" disabled={isGameOver}>
           <Flag className="h-3 w-3 mr-1" />
           Resign
         </Button>
       </div>
+      <div className="flex gap-1 mt-1">
+        <Button onClick={onCopyPgn} variant="outline" size="sm" className="flex-1 h-8 text-xs" disabled={!onCopyPgn}>
+          <Copy className="h-3 w-3 mr-1" />
+          Copy PGN
+        </Button>
+        <Button onClick={onDownloadPgn} variant="outline" size="sm" className="flex-1 h-8 text-xs" disabled={!onDownloadPgn}>
+          <Download className="h-3 w-3 mr-1" />
+          Download PGN
+        </Button>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+const GameOverPanel: React.FC<{
+  result: string;
+  mode: GameMode;
+  isSpectator?: boolean;
+  canRematch: boolean;
+  rematchStatus: 'idle' | 'offered' | 'received';
+  onRematch: () => void;
+  onRespondToRematch: (accepted: boolean) => void;
+  onBackToMenu: () => void;
+  onReview?: () => void;
+  onOpenAnalysisBoard?: () => void;
+}> = ({ result, mode, isSpectator = false, canRematch, rematchStatus, onRematch, onRespondToRematch, onBackToMenu, onReview, onOpenAnalysisBoard }) => (
+  <Card className="panel border-2 border-primary/30 shadow-lg">
+    <CardHeader className="pb-2">
+      <CardTitle className="text-sm font-semibold flex items-center gap-2">
+        <Trophy className="h-4 w-4 text-yellow-500" />
+        Game Over
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="p-3 pt-0 space-y-3">
+      <p className="text-sm text-muted-foreground">{result}</p>
+      {isSpectator ? null : rematchStatus === 'received' ? (
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Your opponent wants a rematch</div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1 h-8 text-xs" onClick={() => onRespondToRematch(false)}>
+              Decline
+            </Button>
+            <Button size="sm" className="flex-1 h-8 text-xs" onClick={() => onRespondToRematch(true)}>
+              Accept
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="flex-1 h-8 text-xs"
+            onClick={onRematch}
+            disabled={!canRematch || rematchStatus === 'offered'}
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            {mode !== 'online' ? 'Play Again' : rematchStatus === 'offered' ? 'Rematch Offered...' : 'Rematch'}
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1 h-8 text-xs" onClick={onBackToMenu}>
+            <ArrowLeft className="h-3 w-3 mr-1" />
+            Menu
+          </Button>
+        </div>
+      )}
+      {onReview && (
+        <Button variant="secondary" size="sm" className="w-full h-8 text-xs" onClick={onReview}>
+          <Activity className="h-3 w-3 mr-1" />
+          Review Game
+        </Button>
+      )}
+      {onOpenAnalysisBoard && (
+        <Button variant="secondary" size="sm" className="w-full h-8 text-xs" onClick={onOpenAnalysisBoard}>
+          <GitBranch className="h-3 w-3 mr-1" />
+          Open in Analysis Board
+        </Button>
+      )}
     </CardContent>
   </Card>
 );
 
+const CLASSIFICATION_STYLES: Record<MoveClassification, { label: string; className: string }> = {
+  best: { label: 'Best', className: 'text-green-600 dark:text-green-400' },
+  good: { label: 'Good', className: 'text-slate-600 dark:text-slate-300' },
+  inaccuracy: { label: 'Inaccuracy', className: 'text-yellow-600 dark:text-yellow-400' },
+  mistake: { label: 'Mistake', className: 'text-orange-600 dark:text-orange-400' },
+  blunder: { label: 'Blunder', className: 'text-red-600 dark:text-red-400' }
+};
+
+const GameReviewPanel: React.FC<{
+  review: GameReview | null;
+  progress: number;
+  currentPly: number;
+  onNavigate: (moveIndex: number) => void;
+  onClose: () => void;
+  startFen?: string;
+}> = ({ review, progress, currentPly, onNavigate, onClose, startFen = DEFAULT_POSITION }) => {
+  const { firstMoveNumber, plyOffset } = getMoveNumbering(startFen);
+  const chartData = review?.evaluations.map((centipawns, position) => ({
+    position,
+    evaluation: Math.max(-10, Math.min(10, centipawns / 100))
+  })) ?? [];
+  const currentMove = review && currentPly >= 0 ? review.moves[currentPly] : null;
+
+  return (
+    <Card className="panel border shadow-sm">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <Activity className="h-4 w-4" />
+            Game Review
+          </CardTitle>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-3 pt-0 space-y-3">
+        {!review ? (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Analysing positions... {Math.round(progress * 100)}%</p>
+            <div className="h-2 rounded-full bg-secondary overflow-hidden">
+              <div className="h-full bg-primary transition-all" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-1 text-xs">
+              <div />
+              <div className="font-semibold text-center">White</div>
+              <div className="font-semibold text-center">Black</div>
+              <div className="text-muted-foreground">Accuracy</div>
+              <div className="text-center font-mono font-bold">{review.accuracy.white}%</div>
+              <div className="text-center font-mono font-bold">{review.accuracy.black}%</div>
+              {(['inaccuracy', 'mistake', 'blunder'] as MoveClassification[]).map(classification => (
+                <React.Fragment key={classification}>
+                  <div className={CLASSIFICATION_STYLES[classification].className}>
+                    {CLASSIFICATION_STYLES[classification].label}s
+                  </div>
+                  {(['white', 'black'] as const).map(color => (
+                    <div key={color} className="text-center font-mono">
+                      {review.moves.filter(move => move.color === color && move.classification === classification).length}
+                    </div>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+
+            <div className="h-28 rounded bg-neutral-800 cursor-pointer">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart
+                  data={chartData}
+                  margin={{ top: 0, right: 0, bottom: 0, left: 0 }}
+                  onClick={(state) => {
+                    if (state?.activeTooltipIndex !== undefined) {
+                      onNavigate(state.activeTooltipIndex - 1);
+                    }
+                  }}
+                >
+                  <XAxis dataKey="position" hide />
+                  <YAxis domain={[-10, 10]} hide />
+                  <ReferenceLine y={0} stroke="#737373" />
+                  <ReferenceLine x={currentPly + 1} stroke="hsl(var(--primary))" strokeWidth={2} />
+                  <Area
+                    type="monotone"
+                    dataKey="evaluation"
+                    stroke="#e5e5e5"
+                    fill="#f5f5f5"
+                    fillOpacity={0.9}
+                    baseValue={-10}
+                    isAnimationActive={false}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            {currentMove ? (
+              <p className="text-xs">
+                <span className="font-semibold">
+                  {firstMoveNumber + Math.floor((currentPly + plyOffset) / 2)}{currentMove.color === 'white' ? '.' : '...'} {currentMove.san}
+                </span>{' '}
+                <span className={CLASSIFICATION_STYLES[currentMove.classification].className}>
+                  {CLASSIFICATION_STYLES[currentMove.classification].label}
+                </span>
+                {currentMove.bestMove && currentMove.classification !== 'best' && (
+                  <span className="text-muted-foreground"> - best was {currentMove.bestMove}</span>
+                )}
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Click the graph or a move to step through the game</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 const DrawOfferDialog: React.FC<{
   isVisible: boolean;
   onAccept: () => void;
@@ -605,13 +1418,59 @@ const DrawOfferDialog: React.FC<{
   );
 };
 
+const TakebackRequestDialog: React.FC<{
+  isVisible: boolean;
+  onRespond: (accepted: boolean) => void;
+  playerName: string;
+}> = ({ isVisible, onRespond, playerName }) => (
+  <Dialog open={isVisible} onOpenChange={() => {}}>
+    <DialogContent className="sm:max-w-md">
+      <DialogHeader>
+        <DialogTitle>Takeback Request</DialogTitle>
+        <DialogDescription>
+          {playerName} would like to take back their last move. Do you agree?
+        </DialogDescription>
+      </DialogHeader>
+      <div className="flex justify-end gap-2 pt-4">
+        <Button variant="outline" onClick={() => onRespond(false)}>
+          Decline
+        </Button>
+        <Button onClick={() => onRespond(true)}>
+          Allow Takeback
+        </Button>
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
 const SettingsDialog: React.FC<{
   isOpen: boolean;
   onClose: () => void;
 }> = ({ isOpen, onClose }) => {
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [volume, setVolume] = useState([50]);
-  const [animationsEnabled, setAnimationsEnabled] = useState(true);
+  const boardSettings = useBoardSettings();
+  const [animationsEnabled, setAnimationsEnabled] = useState(boardSettings.animationsEnabled);
+  const [animationDuration, setAnimationDuration] = useState([boardSettings.animationDuration]);
+  const [maxPremoves, setMaxPremoves] = useState([boardSettings.maxPremoves]);
+
+  // Start from the saved values each time the dialog opens so Cancel discards edits
+  useEffect(() => {
+    if (isOpen) {
+      setAnimationsEnabled(boardSettings.animationsEnabled);
+      setAnimationDuration([boardSettings.animationDuration]);
+      setMaxPremoves([boardSettings.maxPremoves]);
+    }
+  }, [isOpen, boardSettings.animationsEnabled, boardSettings.animationDuration, boardSettings.maxPremoves]);
+
+  const handleSave = () => {
+    boardSettings.updateBoardSettings({
+      animationsEnabled,
+      animationDuration: animationDuration[0],
+      maxPremoves: maxPremoves[0]
+    });
+    onClose();
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -653,6 +1512,22 @@ const SettingsDialog: React.FC<{
             )}
           </div>
 
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium">Gameplay</h3>
+
+            <div className="space-y-2">
+              <Label>Premoves: {maxPremoves[0] === 0 ? 'Off' : maxPremoves[0]}</Label>
+              <Slider
+                value={maxPremoves}
+                onValueChange={setMaxPremoves}
+                min={0}
+                max={5}
+                step={1}
+                className="w-full"
+              />
+            </div>
+          </div>
+
           <div className="space-y-4">
             <h3 className="text-lg font-medium">Visual</h3>
             
@@ -666,6 +1541,20 @@ const SettingsDialog: React.FC<{
                 onCheckedChange={setAnimationsEnabled}
               />
             </div>
+
+            {animationsEnabled && (
+              <div className="space-y-2">
+                <Label>Animation Speed: {animationDuration[0]} ms</Label>
+                <Slider
+                  value={animationDuration}
+                  onValueChange={setAnimationDuration}
+                  min={50}
+                  max={600}
+                  step={50}
+                  className="w-full"
+                />
+              </div>
+            )}
           </div>
         </div>
 
@@ -673,7 +1562,7 @@ const SettingsDialog: React.FC<{
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={onClose}>
+          <Button onClick={handleSave}>
             Save Settings
           </Button>
         </div>
@@ -682,6 +1571,94 @@ const SettingsDialog: React.FC<{
   );
 };
 
+const PgnImportDialog: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (game: ImportedGame) => void;
+}> = ({ isOpen, onClose, onImport }) => {
+  const [pgnText, setPgnText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setPgnText(await file.text());
+    setError(null);
+  };
+
+  const handleImport = () => {
+    try {
+      onImport(parsePgn(pgnText));
+      setPgnText('');
+      setError(null);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError));
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import PGN
+          </DialogTitle>
+          <DialogDescription>
+            Paste a game or choose a .pgn file to replay and analyse it
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <textarea
+            value={pgnText}
+            onChange={(event) => {
+              setPgnText(event.target.value);
+              setError(null);
+            }}
+            placeholder={'[Event "Casual game"]\n\n1. e4 e5 2. Nf3 Nc6 *'}
+            className="w-full h-48 rounded-md border border-input bg-background px-3 py-2 text-sm font-mono resize-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <Input type="file" accept=".pgn,text/plain" onChange={handleFileChange} />
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport}>
+            <Upload className="h-4 w-4 mr-2" />
+            Load Game
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Read when the dialog opens; the engine may have fallen back to a simpler build since startup
+const EngineInfoSection: React.FC = () => {
+  const engineInfo = getEngineInfo();
+  return (
+    <div>
+      <h3 className="font-semibold mb-2">Engine</h3>
+      {engineInfo ? (
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline">Stockfish 16 NNUE</Badge>
+          <Badge variant="outline">{engineInfo.build}</Badge>
+          <Badge variant="outline">{engineInfo.threads} {engineInfo.threads === 1 ? 'thread' : 'threads'}</Badge>
+          <Badge variant="outline">{engineInfo.hash} MB hash</Badge>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Stockfish could not start in this browser</p>
+      )}
+    </div>
+  );
+};
+
 const AboutDialog: React.FC<{
   isOpen: boolean;
   onClose: () => void;
@@ -716,7 +1693,7 @@ const AboutDialog: React.FC<{
               <li>• Online multiplayer support</li>
               <li>• Beautiful, responsive design</li>
               <li>• Sound effects and animations</li>
-              <li>• Multiple difficulty levels</li>
+              <li>• AI strength from 400 to 3000 Elo</li>
             </ul>
           </div>
 
@@ -731,6 +1708,8 @@ const AboutDialog: React.FC<{
             </div>
           </div>
 
+          <EngineInfoSection />
+
           <div className="pt-4 border-t">
             <p className="text-sm text-muted-foreground text-center flex items-center justify-center gap-1.5">
               Made with <Heart className="h-4 w-4 text-red-500" /> for chess enthusiasts
@@ -762,10 +1741,13 @@ const OnlineGamePanel: React.FC<{
   isConnected: boolean;
   opponent: string;
   playerColor: 'white' | 'black' | null;
-  onCreateRoom: () => void;
+  onCreateRoom: (timeControl: TimeControl) => void;
   onJoinRoom: (code: string) => void;
+  onSpectateRoom?: (code: string) => void;
   waitingForOpponent?: boolean;
   gameStarted?: boolean;
+  // New rooms start from the custom position chosen on the menu
+  hasCustomStart?: boolean;
 }> = ({
   roomCode,
   isConnected,
@@ -773,12 +1755,15 @@ const OnlineGamePanel: React.FC<{
   playerColor,
   onCreateRoom,
   onJoinRoom,
+  onSpectateRoom,
   waitingForOpponent = false,
-  gameStarted = false
+  gameStarted = false,
+  hasCustomStart = false
 }) => {
   const { toast } = useToast();
   const [joinCode, setJoinCode] = useState('');
   const [copied, setCopied] = useState(false);
+  const [selectedTimeControl, setSelectedTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
 
   const handleJoinRoom = () => {
     if (joinCode.trim()) {
@@ -869,14 +1854,37 @@ const OnlineGamePanel: React.FC<{
               </p>
             </div>
 
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-muted-foreground text-center">Time Control (minutes + seconds)</div>
+              <div className="grid grid-cols-4 gap-2">
+                {TIME_CONTROL_PRESETS.map(({ label, timeControl }) => (
+                  <Button
+                    key={label}
+                    variant={selectedTimeControl === timeControl ? 'default' : 'outline'}
+                    size="sm"
+                    className="font-mono"
+                    onClick={() => setSelectedTimeControl(timeControl)}
+                    disabled={!isConnected}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
             <Button 
-              onClick={onCreateRoom} 
+              onClick={() => onCreateRoom(selectedTimeControl)} 
               className="w-full py-3 font-medium text-lg"
               disabled={!isConnected}
             >
               <Plus className="h-5 w-5 mr-2" />
               Create New Room
             </Button>
+            {hasCustomStart && (
+              <p className="text-xs text-muted-foreground text-center">
+                The room will start from your custom position
+              </p>
+            )}
             
             <div className="relative">
               <div className="absolute inset-0 flex items-center">
@@ -905,6 +1913,17 @@ const OnlineGamePanel: React.FC<{
                 <LogIn className="h-5 w-5 mr-2" />
                 Join Room
               </Button>
+              {onSpectateRoom && (
+                <Button 
+                  onClick={() => onSpectateRoom(joinCode.trim())} 
+                  variant="ghost" 
+                  className="w-full font-medium"
+                  disabled={!joinCode.trim() || !isConnected}
+                >
+                  <Eye className="h-4 w-4 mr-2" />
+                  Watch Game
+                </Button>
+              )}
             </div>
 
             {!isConnected && (
@@ -1021,40 +2040,166 @@ const OnlineGamePanel: React.FC<{
   );
 };
 
-const MenuScreen: React.FC<{ onStartGame: (mode: GameMode, difficulty?: 'easy' | 'medium' | 'hard') => void }> = ({ onStartGame }) => {
+const LobbyPanel: React.FC<{
+  isConnected: boolean;
+  seeks: LobbySeek[];
+  mySeekId: string | null;
+  isQuickPairing: boolean;
+  onCreateSeek: (timeControl: TimeControl, color: ColorPreference) => void;
+  onCancelSeek: () => void;
+  onAcceptSeek: (seekId: string) => void;
+  onQuickPair: (timeControl: TimeControl) => void;
+  onCancelQuickPair: () => void;
+}> = ({
+  isConnected,
+  seeks,
+  mySeekId,
+  isQuickPairing,
+  onCreateSeek,
+  onCancelSeek,
+  onAcceptSeek,
+  onQuickPair,
+  onCancelQuickPair
+}) => {
+  const [selectedTimeControl, setSelectedTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
+  const [colorPreference, setColorPreference] = useState<ColorPreference>('random');
+  const isWaiting = isQuickPairing || !!mySeekId;
+
+  return (
+    <Card className="backdrop-blur-sm bg-card/90 border-2 border-border/50 shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2 font-semibold">
+          <Swords className="h-5 w-5" />
+          Lobby
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-4 gap-2">
+          {TIME_CONTROL_PRESETS.map(({ label, timeControl }) => (
+            <Button
+              key={label}
+              variant={selectedTimeControl === timeControl ? 'default' : 'outline'}
+              size="sm"
+              className="font-mono"
+              onClick={() => setSelectedTimeControl(timeControl)}
+              disabled={!isConnected || isWaiting}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        {isQuickPairing ? (
+          <div className="flex items-center gap-2">
+            <div className="flex-1 text-sm text-orange-600 dark:text-orange-400 flex items-center gap-2">
+              <Search className="h-4 w-4 animate-pulse" />
+              Looking for an opponent...
+            </div>
+            <Button variant="outline" size="sm" onClick={onCancelQuickPair}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <Button
+            onClick={() => onQuickPair(selectedTimeControl)}
+            className="w-full font-medium"
+            disabled={!isConnected || isWaiting}
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Quick Pair
+          </Button>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            {(['white', 'random', 'black'] as ColorPreference[]).map(color => (
+              <Button
+                key={color}
+                variant={colorPreference === color ? 'secondary' : 'ghost'}
+                size="sm"
+                className="flex-1 capitalize"
+                onClick={() => setColorPreference(color)}
+                disabled={!isConnected || isWaiting}
+              >
+                {color}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            className="w-full font-medium"
+            onClick={() => onCreateSeek(selectedTimeControl, colorPreference)}
+            disabled={!isConnected || isWaiting}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Post Open Seek
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-muted-foreground">Open Seeks</div>
+          {seeks.length === 0 ? (
+            <div className="p-3 text-center text-sm text-muted-foreground bg-secondary/50 rounded-lg">
+              No open seeks right now
+            </div>
+          ) : (
+            <div className="max-h-48 overflow-y-auto move-history-scroll space-y-1">
+              {seeks.map(seek => (
+                <div key={seek.id} className="flex items-center gap-2 p-2 rounded-lg bg-secondary/50">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{seek.name}</div>
+                    <div className="text-xs text-muted-foreground capitalize">
+                      {formatTimeControl(seek.time_control)} · {seek.color}
+                    </div>
+                  </div>
+                  {seek.id === mySeekId ? (
+                    <Button variant="ghost" size="sm" onClick={onCancelSeek} title="Cancel seek">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button size="sm" onClick={() => onAcceptSeek(seek.id)} disabled={!isConnected || isQuickPairing}>
+                      Play
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const MenuScreen: React.FC<{
+  onStartGame: (mode: GameMode, aiRating?: number, aiColorPreference?: ColorPreference) => void;
+  onImportGame: (game: ImportedGame) => void;
+  startFen: string;
+  onStartFenChange: (fen: string) => void;
+}> = ({ onStartGame, onImportGame, startFen, onStartFenChange }) => {
+  const navigate = useNavigate();
   const [showAiDialog, setShowAiDialog] = useState(false);
+  const [fenInput, setFenInput] = useState(startFen === DEFAULT_POSITION ? '' : startFen);
+  const fenError = fenInput.trim() ? getPositionError(fenInput.trim()) : null;
+  const [showImport, setShowImport] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showAbout, setShowAbout] = useState(false);
+  const [aiRating, setAiRating] = useState([DEFAULT_AI_RATING]);
+  const [aiColorPreference, setAiColorPreference] = useState<ColorPreference>('white');
 
-  const handleAiGame = (difficulty: 'easy' | 'medium' | 'hard') => {
+  const handleAiGame = () => {
     setShowAiDialog(false);
-    onStartGame('ai', difficulty);
+    onStartGame('ai', aiRating[0], aiColorPreference);
   };
 
-  const difficultyConfig = {
-    easy: {
-      icon: Target,
-      color: 'text-green-500',
-      bgColor: 'bg-green-50 dark:bg-green-950 hover:bg-green-100 dark:hover:bg-green-900',
-      borderColor: 'border-green-200 dark:border-green-800 hover:border-green-300 dark:hover:border-green-700',
-      description: 'Perfect for beginners and casual players',
-      features: ['Forgiving gameplay', 'Basic strategies', 'Good for learning']
-    },
-    medium: {
-      icon: Award,
-      color: 'text-orange-500',
-      bgColor: 'bg-orange-50 dark:bg-orange-950 hover:bg-orange-100 dark:hover:bg-orange-900',
-      borderColor: 'border-orange-200 dark:border-orange-800 hover:border-orange-300 dark:hover:border-orange-700',
-      description: 'Balanced challenge for intermediate players',
-      features: ['Strategic thinking', 'Tactical combinations', 'Moderate difficulty']
-    },
-    hard: {
-      icon: Crown,
-      color: 'text-red-500',
-      bgColor: 'bg-red-50 dark:bg-red-950 hover:bg-red-100 dark:hover:bg-red-900',
-      borderColor: 'border-red-200 dark:border-red-800 hover:border-red-300 dark:hover:border-red-700',
-      description: 'Ultimate challenge for experienced players',
-      features: ['Advanced tactics', 'Deep calculations', 'Expert level play']
+  // Only a usable position reaches the game; until then the game buttons stay disabled
+  const handleFenChange = (value: string) => {
+    setFenInput(value);
+    const fen = value.trim();
+    if (!fen) {
+      onStartFenChange(DEFAULT_POSITION);
+    } else if (!getPositionError(fen)) {
+      onStartFenChange(fen);
     }
   };
 
@@ -1072,7 +2217,7 @@ const MenuScreen: React.FC<{ onStartGame: (mode: GameMode, difficulty?: 'easy' |
         </div>
 
         <div className="flex justify-center gap-3 mb-8">
-          {/* <Button
+          <Button
             variant="ghost"
             size="sm"
             onClick={() => setShowSettings(true)}
@@ -1080,7 +2225,7 @@ const MenuScreen: React.FC<{ onStartGame: (mode: GameMode, difficulty?: 'easy' |
           >
             <Settings className="h-4 w-4" />
             Settings
-          </Button> */}
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -1090,6 +2235,24 @@ const MenuScreen: React.FC<{ onStartGame: (mode: GameMode, difficulty?: 'easy' |
             <Info className="h-4 w-4" />
             About
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 hover:bg-secondary/80 transition-colors"
+          >
+            <Upload className="h-4 w-4" />
+            Import PGN
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/analysis')}
+            className="flex items-center gap-2 hover:bg-secondary/80 transition-colors"
+          >
+            <GitBranch className="h-4 w-4" />
+            Analysis Board
+          </Button>
           <ThemeToggle />
         </div>
 
@@ -1103,13 +2266,14 @@ const MenuScreen: React.FC<{ onStartGame: (mode: GameMode, difficulty?: 'easy' |
             </CardHeader>
             <CardContent>
               <p className="text-muted-foreground text-center mb-6">
-                Challenge our intelligent AI with multiple difficulty levels
+                Challenge Stockfish at any strength from beginner to master
               </p>
               <Button 
                 onClick={() => setShowAiDialog(true)}
                 className="w-full py-3 text-lg font-semibold bg-blue-600 hover:bg-blue-700 transition-colors"
+                disabled={!!fenError}
               >
-                Choose Difficulty
+                Choose Strength
               </Button>
             </CardContent>
           </Card>
@@ -1128,6 +2292,7 @@ const MenuScreen: React.FC<{ onStartGame: (mode: GameMode, difficulty?: 'easy' |
               <Button 
                 onClick={() => onStartGame('local')}
                 className="w-full py-3 text-lg font-semibold bg-green-600 hover:bg-green-700 transition-colors"
+                disabled={!!fenError}
               >
                 Start Local Game
               </Button>
@@ -1148,6 +2313,7 @@ const MenuScreen: React.FC<{ onStartGame: (mode: GameMode, difficulty?: 'easy' |
               <Button 
                 onClick={() => onStartGame('online')}
                 className="w-full py-3 text-lg font-semibold bg-purple-600 hover:bg-purple-700 transition-colors"
+                disabled={!!fenError}
               >
                 Play Online
               </Button>
@@ -1155,11 +2321,50 @@ const MenuScreen: React.FC<{ onStartGame: (mode: GameMode, difficulty?: 'easy' |
           </Card>
         </div>
 
+        <Card className="panel border mb-8">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-semibold flex items-center gap-2">
+              <Puzzle className="h-4 w-4" />
+              Custom Starting Position
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={fenInput}
+                onChange={(e) => handleFenChange(e.target.value)}
+                placeholder={DEFAULT_POSITION}
+                className="font-mono text-xs"
+                spellCheck={false}
+              />
+              <Button variant="outline" size="sm" className="h-10" onClick={() => handleFenChange('')} disabled={!fenInput}>
+                Clear
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-10"
+                onClick={() => navigate('/editor', { state: { fen: startFen } })}
+                title="Set up a position on the board"
+              >
+                <Grid3x3 className="h-4 w-4 mr-1" />
+                Board Editor
+              </Button>
+            </div>
+            <p className={cn("text-xs", fenError ? "text-destructive" : "text-muted-foreground")}>
+              {fenError
+                ?? (fenInput.trim()
+                  ? `${getSideToMove(fenInput.trim())} to move. Local, AI and newly created online games start from this position.`
+                  : 'Paste a FEN to start a local, AI or online room game from a position of your choice.')}
+            </p>
+          </CardContent>
+        </Card>
+
         <div className="text-center animate-fade-in" style={{ animationDelay: '0.3s' }}>
           <div className="flex flex-wrap justify-center gap-3">
             <Badge variant="secondary" className="px-4 py-2 text-sm font-medium">
               <Trophy className="h-4 w-4 mr-1" />
-              Multiple AI Levels
+              Adjustable AI Strength
             </Badge>
             <Badge variant="secondary" className="px-4 py-2 text-sm font-medium">
               <Star className="h-4 w-4 mr-1" />
@@ -1173,74 +2378,95 @@ const MenuScreen: React.FC<{ onStartGame: (mode: GameMode, difficulty?: 'easy' |
         </div>
 
         <Dialog open={showAiDialog} onOpenChange={setShowAiDialog}>
-          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogContent className="sm:max-w-[500px]">
             <DialogHeader>
               <DialogTitle className="text-2xl font-bold text-center flex items-center justify-center gap-2">
                 <Bot className="h-6 w-6 text-blue-500" />
-                Choose AI Difficulty
+                Choose AI Strength
               </DialogTitle>
+              <DialogDescription className="text-center">
+                Stockfish plays at roughly the chosen rating and thinks within the game clock
+              </DialogDescription>
             </DialogHeader>
-            
-            <div className="space-y-4 py-4">
-              {Object.entries(difficultyConfig).map(([difficulty, config]) => {
-                const IconComponent = config.icon;
-                return (
-                  <Card 
-                    key={difficulty} 
-                    className={`cursor-pointer hover:scale-105 transition-transform ${config.bgColor} ${config.borderColor} border-2`}
-                    onClick={() => handleAiGame(difficulty as 'easy' | 'medium' | 'hard')}
+
+            <div className="space-y-6 py-4">
+              <div className="text-center">
+                <div className="text-4xl font-bold font-mono">{aiRating[0]}</div>
+                <Badge variant="outline" className="mt-2">{getAiRatingLabel(aiRating[0])}</Badge>
+              </div>
+
+              <Slider
+                value={aiRating}
+                onValueChange={setAiRating}
+                min={AI_RATING_MIN}
+                max={AI_RATING_MAX}
+                step={50}
+                className="w-full"
+              />
+
+              <div className="grid grid-cols-3 gap-2">
+                {AI_RATING_PRESETS.map(({ label, rating }) => (
+                  <Button
+                    key={label}
+                    variant={aiRating[0] === rating ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setAiRating([rating])}
                   >
-                    <CardContent className="p-6">
-                      <div className="flex items-start gap-4">
-                        <div className={`p-3 rounded-full bg-white/50 dark:bg-black/20`}>
-                          <IconComponent className={`h-6 w-6 ${config.color}`} />
-                        </div>
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-2">
-                            <h3 className="text-xl font-bold capitalize">{difficulty}</h3>
-                            <Badge variant="outline" className="text-xs">
-                              {difficulty === 'easy' ? 'Beginner' : difficulty === 'medium' ? 'Intermediate' : 'Expert'}
-                            </Badge>
-                          </div>
-                          <p className="text-muted-foreground mb-3">{config.description}</p>
-                          <ul className="space-y-1">
-                            {config.features.map((feature, index) => (
-                              <li key={index} className="text-sm text-muted-foreground flex items-center gap-2">
-                                <div className={`w-1.5 h-1.5 rounded-full ${config.color.replace('text-', 'bg-')}`} />
-                                {feature}
-                              </li>
-                            ))}
-                          </ul>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                );
-              })}
-            </div>
+                    {label}
+                  </Button>
+                ))}
+              </div>
 
-            <div className="text-center pt-4 border-t">
-              <p className="text-sm text-muted-foreground">
-                Choose your preferred difficulty level to begin playing against the AI
-              </p>
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Play as</Label>
+                <div className="flex gap-2">
+                  {(['white', 'random', 'black'] as ColorPreference[]).map(color => (
+                    <Button
+                      key={color}
+                      variant={aiColorPreference === color ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="flex-1 capitalize"
+                      onClick={() => setAiColorPreference(color)}
+                    >
+                      {color}
+                    </Button>
+                  ))}
+                </div>
+              </div>
             </div>
+
+            <Button
+              onClick={handleAiGame}
+              className="w-full py-3 text-lg font-semibold bg-blue-600 hover:bg-blue-700 transition-colors"
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Start Game
+            </Button>
           </DialogContent>
         </Dialog>
 
         <SettingsDialog isOpen={showSettings} onClose={() => setShowSettings(false)} />
         <AboutDialog isOpen={showAbout} onClose={() => setShowAbout(false)} />
+        <PgnImportDialog isOpen={showImport} onClose={() => setShowImport(false)} onImport={onImportGame} />
       </div>
     </div>
   );
 };
 
+const HintMarker: React.FC = () => (
+  <Lightbulb className="inline h-3 w-3 ml-1 text-yellow-500" aria-label="Played after a hint" />
+);
+
 const MoveHistory: React.FC<{
   gameHistory: string[];
   currentMoveIndex: number;
   onMoveClick?: (index: number) => void;
   onNavigateToMove?: (index: number) => void;
   isGameOver?: boolean;
-}> = ({ gameHistory, currentMoveIndex, onMoveClick, onNavigateToMove, isGameOver = false }) => {
+  // Moves that were played after asking for a hint
+  hintedPlies?: number[];
+  startFen?: string;
+}> = ({ gameHistory, currentMoveIndex, onMoveClick, onNavigateToMove, isGameOver = false, hintedPlies = [], startFen = DEFAULT_POSITION }) => {
   const [viewingMoveIndex, setViewingMoveIndex] = useState(currentMoveIndex);
   const [isPlaying, setIsPlaying] = useState(false);
   const [playInterval, setPlayInterval] = useState<NodeJS.Timeout | null>(null);
@@ -1310,13 +2536,15 @@ const MoveHistory: React.FC<{
     }
   };
 
+  const { firstMoveNumber, plyOffset } = getMoveNumbering(startFen);
   const moves = [];
-  for (let i = 0; i < gameHistory.length; i += 2) {
+  for (let i = -plyOffset; i < gameHistory.length; i += 2) {
     const whiteMove = gameHistory[i];
     const blackMove = gameHistory[i + 1];
     
     moves.push({
-      number: Math.floor(i / 2) + 1,
+      number: firstMoveNumber + (i + plyOffset) / 2,
+      whitePly: i,
       white: whiteMove,
       black: blackMove
     });
@@ -1344,7 +2572,7 @@ const MoveHistory: React.FC<{
               <div className="font-semibold text-muted-foreground px-2 py-1">White</div>
               <div className="font-semibold text-muted-foreground px-2 py-1">Black</div>
               
-              {moves.map((move, index) => (
+              {moves.map((move) => (
                 <React.Fragment key={move.number}>
                   <div className="move-number">
                     {move.number}
@@ -1352,22 +2580,24 @@ const MoveHistory: React.FC<{
                   <div 
                     className={cn(
                       "move-cell",
-                      viewingMoveIndex === index * 2 && "move-cell-active",
-                      currentMoveIndex === index * 2 && "move-cell-current"
+                      move.white && viewingMoveIndex === move.whitePly && "move-cell-active",
+                      move.white && currentMoveIndex === move.whitePly && "move-cell-current"
                     )}
-                    onClick={() => onMoveClick?.(index * 2)}
+                    onClick={() => move.white && onMoveClick?.(move.whitePly)}
                   >
-                    {move.white}
+                    {move.white || "..."}
+                    {hintedPlies.includes(move.whitePly) && <HintMarker />}
                   </div>
                   <div 
                     className={cn(
                       "move-cell",
-                      move.black && viewingMoveIndex === index * 2 + 1 && "move-cell-active",
-                      move.black && currentMoveIndex === index * 2 + 1 && "move-cell-current"
+                      move.black && viewingMoveIndex === move.whitePly + 1 && "move-cell-active",
+                      move.black && currentMoveIndex === move.whitePly + 1 && "move-cell-current"
                     )}
-                    onClick={() => move.black && onMoveClick?.(index * 2 + 1)}
+                    onClick={() => move.black && onMoveClick?.(move.whitePly + 1)}
                   >
                     {move.black || "..."}
+                    {hintedPlies.includes(move.whitePly + 1) && <HintMarker />}
                   </div>
                 </React.Fragment>
               ))}
@@ -1473,12 +2703,272 @@ const MoveHistory: React.FC<{
   );
 };
 
+const formatScore = ({ type, value }: EngineScore) => {
+  if (type === 'mate') {
+    return `#${value}`;
+  }
+  const pawns = value / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+};
+
+// Share of the evaluation bar filled for White; the curve flattens out so a few pawns are already decisive
+const getWhiteShare = (score: EngineScore | null) => {
+  if (!score) return 50;
+  if (score.type === 'mate') return score.value > 0 ? 100 : 0;
+  return 50 + 50 * (2 / (1 + Math.exp(-0.004 * score.value)) - 1);
+};
+
+// Principal variation from UCI to numbered SAN, e.g. "12... Nf6 13. e5"
+const formatVariation = (fen: string, pv: string[], maxPlies = 12) => {
+  const position = new Chess(fen);
+  const parts: string[] = [];
+  for (const uci of pv.slice(0, maxPlies)) {
+    const moveNumber = position.moveNumber();
+    const isWhite = position.turn() === 'w';
+    try {
+      const move = position.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+      if (isWhite) parts.push(`${moveNumber}. ${move.san}`);
+      else parts.push(parts.length === 0 ? `${moveNumber}... ${move.san}` : move.san);
+    } catch {
+      break;
+    }
+  }
+  return parts.join(' ');
+};
+
+const EvaluationBar: React.FC<{
+  score: EngineScore | null;
+  isFlipped: boolean;
+}> = ({ score, isFlipped }) => (
+  <div
+    className="relative w-3 sm:w-4 h-80 md:h-96 lg:h-[420px] shrink-0 rounded-sm overflow-hidden bg-neutral-700 border border-border shadow"
+    title={score ? formatScore(score) : 'Evaluating...'}
+  >
+    <div
+      className="absolute inset-x-0 bg-neutral-100 transition-all duration-500"
+      style={{ height: `${getWhiteShare(score)}%`, ...(isFlipped ? { top: 0 } : { bottom: 0 }) }}
+    />
+  </div>
+);
+
+const AssistantPanel: React.FC<{
+  available: boolean;
+  hint: Hint | null;
+  isThinking: boolean;
+  onHint: () => void;
+  showThreats: boolean;
+  onShowThreatsChange: (enabled: boolean) => void;
+  hintsUsed: number;
+  compact?: boolean;
+}> = ({ available, hint, isThinking, onHint, showThreats, onShowThreatsChange, hintsUsed, compact = false }) => (
+  <Card className={cn("panel border", compact ? "shadow-lg" : "shadow-sm")}>
+    <CardHeader className={cn("pb-2", compact && "px-3 pt-3")}>
+      <CardTitle className="text-sm font-semibold flex items-center gap-2">
+        <Lightbulb className="h-4 w-4" />
+        Assistant
+        {hintsUsed > 0 && (
+          <Badge variant="secondary" className="text-xs">
+            {hintsUsed} {hintsUsed === 1 ? 'hint' : 'hints'} used
+          </Badge>
+        )}
+      </CardTitle>
+    </CardHeader>
+    <CardContent className={cn("pt-0 flex items-center gap-3", compact ? "px-3 pb-3" : "p-2 pt-0")}>
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex-1 h-8 text-xs"
+        onClick={onHint}
+        disabled={!available || isThinking || hint?.stage === 'move'}
+      >
+        <Lightbulb className="h-3 w-3 mr-1" />
+        {isThinking ? 'Thinking...' : hint ? 'Show Move' : 'Hint'}
+      </Button>
+      <div className="flex items-center gap-2">
+        <Switch id="show-threats" checked={showThreats} onCheckedChange={onShowThreatsChange} />
+        <Label htmlFor="show-threats" className="text-xs">Threats</Label>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+const AnalysisPanel: React.FC<{
+  enabled: boolean;
+  available: boolean;
+  onToggle: (enabled: boolean) => void;
+  fen: string;
+  lines: AnalysisLine[];
+  depth: number;
+  multiPv: number;
+  onMultiPvChange: (multiPv: number) => void;
+  compact?: boolean;
+}> = ({ enabled, available, onToggle, fen, lines, depth, multiPv, onMultiPvChange, compact = false }) => (
+  <Card className={cn("panel border", compact ? "shadow-lg" : "shadow-sm")}>
+    <CardHeader className={cn("pb-2", compact && "px-3 pt-3")}>
+      <div className="flex items-center justify-between">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <Activity className="h-4 w-4" />
+          Analysis
+          {enabled && available && depth > 0 && (
+            <Badge variant="secondary" className="text-xs">depth {depth}</Badge>
+          )}
+        </CardTitle>
+        <Switch checked={enabled && available} onCheckedChange={onToggle} disabled={!available} />
+      </div>
+    </CardHeader>
+    <CardContent className={cn("pt-0", compact ? "px-3 pb-3" : "p-2 pt-0")}>
+      {!available ? (
+        <p className="text-xs text-muted-foreground">
+          Available in local games and when reviewing moves after the game
+        </p>
+      ) : !enabled ? null : (
+        <div className="space-y-2">
+          <div className="flex gap-1">
+            {[1, 2, 3].map(count => (
+              <Button
+                key={count}
+                size="sm"
+                variant={multiPv === count ? 'default' : 'outline'}
+                className="h-6 px-2 text-xs"
+                onClick={() => onMultiPvChange(count)}
+              >
+                {count} {count === 1 ? 'line' : 'lines'}
+              </Button>
+            ))}
+          </div>
+          {lines.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Thinking...</p>
+          ) : (
+            lines.map(line => (
+              <div key={line.multipv} className="flex items-start gap-2 text-xs">
+                <span className={cn(
+                  "font-mono font-semibold px-1.5 py-0.5 rounded shrink-0",
+                  line.score.value >= 0 ? "bg-neutral-100 text-neutral-900" : "bg-neutral-800 text-neutral-100"
+                )}>
+                  {formatScore(line.score)}
+                </span>
+                <span className="text-muted-foreground leading-5 break-words">{formatVariation(fen, line.pv)}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
+
+const ChatPanel: React.FC<{
+  messages: ChatMessage[];
+  opponent: string;
+  isSpectator?: boolean;
+  onSend: (text: string) => void;
+  compact?: boolean;
+}> = ({ messages, opponent, isSpectator = false, onSend, compact = false }) => {
+  const [draft, setDraft] = useState('');
+  const [isOpponentMuted, setIsOpponentMuted] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Muting goes by name because colours swap on a rematch
+  const visibleMessages = isOpponentMuted
+    ? messages.filter(message => message.sender !== opponent)
+    : messages;
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [visibleMessages.length]);
+
+  const handleSend = (text: string) => {
+    const message = text.trim();
+    if (!message) return;
+    onSend(message);
+    setDraft('');
+  };
+
+  return (
+    <Card className="panel border shadow-lg">
+      <CardHeader className={compact ? "pb-2 px-3 pt-3" : "pb-2"}>
+        <CardTitle className="text-sm font-semibold flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            Chat
+          </span>
+          {!isSpectator && opponent && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setIsOpponentMuted(!isOpponentMuted)}
+              title={isOpponentMuted ? 'Show opponent messages' : 'Hide opponent messages'}
+            >
+              {isOpponentMuted ? <VolumeX className="h-3 w-3 mr-1" /> : <Volume2 className="h-3 w-3 mr-1" />}
+              {isOpponentMuted ? 'Unmute' : 'Mute'}
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-2 pt-0 space-y-2">
+        <div ref={scrollRef} className={cn("overflow-y-auto move-history-scroll space-y-1 text-sm", compact ? "max-h-24" : "max-h-40")}>
+          {visibleMessages.length === 0 ? (
+            <div className="p-2 text-center text-xs text-muted-foreground">No messages yet</div>
+          ) : (
+            visibleMessages.map(message => (
+              <div key={message.id} className="px-2 py-1 rounded bg-secondary/30 break-words">
+                <span className={cn(
+                  "font-semibold mr-1",
+                  message.role === 'spectator' ? "text-muted-foreground" : "text-primary"
+                )}>
+                  {message.sender}
+                  {message.role === 'spectator' && ' (spectator)'}:
+                </span>
+                {message.text}
+              </div>
+            ))
+          )}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {QUICK_CHAT_MESSAGES.map(text => (
+            <Button key={text} variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => handleSend(text)}>
+              {text}
+            </Button>
+          ))}
+        </div>
+        <form
+          className="flex gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSend(draft);
+          }}
+        >
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={CHAT_MESSAGE_MAX_LENGTH}
+            placeholder="Say something..."
+            className="h-8 text-sm"
+          />
+          <Button type="submit" size="sm" className="h-8 px-2" disabled={!draft.trim()} title="Send">
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
 const GameBoard: React.FC<{
   mode: GameMode;
-  aiDifficulty: 'easy' | 'medium' | 'hard';
+  aiRating: number;
+  // The human's side in AI games
+  playAs: 'white' | 'black';
+  // A game loaded from PGN, shown from its final position in a local game
+  importedGame?: ImportedGame | null;
+  // Custom starting position for local and AI games and for rooms created from this screen
+  startFen?: string;
   onBackToMenu: () => void;
-}> = ({ mode, aiDifficulty, onBackToMenu }) => {
-  const [gameStatus, setGameStatus] = useState('White to move');
+}> = ({ mode, aiRating, playAs, importedGame = null, startFen: customStartFen = DEFAULT_POSITION, onBackToMenu }) => {
+  const [gameStatus, setGameStatus] = useState(() => `${getSideToMove(customStartFen)} to move`);
   const [isFlipped, setIsFlipped] = useState(false);
   const [whiteTime, setWhiteTime] = useState(600); // 10 minutes
   const [blackTime, setBlackTime] = useState(600); // 10 minutes
@@ -1491,7 +2981,26 @@ const GameBoard: React.FC<{
   const [isAutoPlaying, setIsAutoPlaying] = useState(false);
   const [autoPlayInterval, setAutoPlayInterval] = useState<NodeJS.Timeout | null>(null);
   const { toast } = useToast();
+  const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const { animationsEnabled, animationDuration } = useBoardSettings();
+  const prefersReducedMotion = usePrefersReducedMotion();
+  // Arrows and circles drawn on each position, keyed by the index of the move that led to it
+  const [annotations, setAnnotations] = useState<Record<number, BoardAnnotation[]>>({});
+  const { maxPremoves } = useBoardSettings();
+  // Premoves and animations are adjusted mid-game, so the settings open from the game screen too
+  const [showSettings, setShowSettings] = useState(false);
+  const [premoves, setPremoves] = useState<Premove[]>([]);
+  const [premoveSelection, setPremoveSelection] = useState<string | null>(null);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [showThreats, setShowThreats] = useState(false);
+  const [startedAt, setStartedAt] = useState(() => new Date());
+  const loadedImportRef = useRef<ImportedGame | null>(null);
+  // Plies of the moves played after asking for a hint, kept as part of the game record
+  const [hintedPlies, setHintedPlies] = useState<number[]>([]);
+  const { review, progress: reviewProgress, isReviewing, startReview, cancelReview } = useGameReview();
+  const [analysisMultiPv, setAnalysisMultiPv] = useState(1);
 
   const handleGameOver = useCallback((result: string) => {
     setIsGameOver(true);
@@ -1525,43 +3034,73 @@ const GameBoard: React.FC<{
     checkmateSquare,
     isViewingHistory,
     viewingMoveIndex,
+    lastMove,
     selectSquare,
     resetGame,
     offerDraw: offerDrawLocal,
     makeMove,
+    pendingPromotion,
+    completePromotion,
+    cancelPromotion,
+    loadMoves,
+    takeBack,
     navigateToMove,
+    isAiThinking,
+    startFen,
     game
   } = useChessEngine({
     mode,
-    aiDifficulty,
+    aiRating,
+    aiColor: playAs === 'white' ? 'black' : 'white',
+    initialFen: customStartFen,
     onGameOver: handleGameOver,
     onPlayerChange: handlePlayerChange
   });
 
+  // Online clocks are owned by the server; the local interval only animates between updates
+  const syncClock = useCallback((clock?: ClockSnapshot) => {
+    if (!clock) return;
+    setWhiteTime(Math.ceil(clock.white / 1000));
+    setBlackTime(Math.ceil(clock.black / 1000));
+  }, []);
+
+  const clearPremoves = useCallback(() => {
+    setPremoves([]);
+    setPremoveSelection(null);
+  }, []);
+
   const handleSelectSquare = (square: string) => {
-    // Don't allow moves when viewing history
-    if (isViewingHistory) {
+    // Don't allow moves when viewing history or watching someone else's game
+    if (isViewingHistory || isSpectator) {
       return;
     }
     
-    if (mode === 'online' && playerColor && currentPlayer !== playerColor) {
+    if (humanColor && currentPlayer !== humanColor) {
+      if (canPremove) {
+        handlePremoveSquare(square);
+      }
       return;
     }
     const currentHistory = game.history().length;
     selectSquare(square);
-    // Check if a move was made
-    if (game.history().length > currentHistory && mode === 'online') {
-      const move = game.history({ verbose: true }).slice(-1)[0];
-      sendMove({ from: move.from, to: move.to });
-    }
+    sendNewMove(currentHistory);
+  };
+
+  const handlePromotionSelect = (piece: PromotionPiece) => {
+    const currentHistory = game.history().length;
+    completePromotion(piece);
+    sendNewMove(currentHistory);
   };
 
-  const handleMoveReceived = useCallback((move: { from: string, to: string, promotion?: string }) => {
+  const handleMoveReceived = useCallback((move: { from: string, to: string, promotion?: PromotionPiece, clock?: ClockSnapshot }) => {
     console.log('Online move received:', move);
+    // The server drops a pending draw offer once either side moves
+    setShowDrawOffer(false);
     if (move && move.from && move.to) {
-      makeMove(move.from, move.to);
+      makeMove(move.from, move.to, move.promotion);
     }
-  }, [makeMove]);
+    syncClock(move?.clock);
+  }, [makeMove, syncClock]);
 
   const handleDrawOffered = useCallback(() => {
     console.log('Draw offer received');
@@ -1575,23 +3114,87 @@ const GameBoard: React.FC<{
     }
   }, [mode, toast]);
 
-  const handleGameStart = useCallback(() => {
+  const handleGameStart = useCallback((color?: 'white' | 'black' | null, clock?: ClockSnapshot, fen?: string) => {
     console.log('Game start callback triggered');
+    // Both players get the room's starting position with the start of the game
+    if (fen) {
+      resetGame(fen);
+    }
+    // A new opponent can join a room whose last game is over
+    setIsGameOver(false);
+    setShowDrawOffer(false);
     setGameStarted(true);
-    setGameStatus('Game started! White to move');
+    setGameStatus(`Game started! ${getSideToMove(fen ?? startFen)} to move`);
     // Reset timers when game starts
     setWhiteTime(600);
     setBlackTime(600);
-  }, []);
+    syncClock(clock);
+  }, [syncClock, resetGame, startFen]);
+
+  const handleGameResync = useCallback((data: { status: string, reason?: string | null, clock: ClockSnapshot, moves: string[], start_fen?: string }) => {
+    clearPremoves();
+    loadMoves(data.moves, data.start_fen);
+    syncClock(data.clock);
+    if (data.status === 'finished') {
+      handleGameOver(data.reason || 'Game ended');
+    } else if (data.status === 'playing') {
+      setGameStarted(true);
+      setGameStatus(`${getSideToMove(game.fen())} to move`);
+    }
+  }, [game, loadMoves, syncClock, clearPremoves, handleGameOver]);
+
+  // Fresh game in the same setting: a local "play again" or an online rematch
+  const startNewGame = useCallback((clock?: ClockSnapshot, fen: string = startFen) => {
+    resetGame(fen);
+    setAnnotations({});
+    setHintedPlies([]);
+    clearPremoves();
+    cancelReview();
+    setShowReview(false);
+    setIsGameOver(false);
+    setShowDrawOffer(false);
+    setGameStarted(true);
+    setGameStatus(`Game started! ${getSideToMove(fen)} to move`);
+    setStartedAt(new Date());
+    setWhiteTime(600);
+    setBlackTime(600);
+    syncClock(clock);
+  }, [startFen, resetGame, syncClock, clearPremoves, cancelReview]);
+
+  const handleRematchStarted = useCallback((clock: ClockSnapshot, fen?: string) => {
+    startNewGame(clock, fen);
+    toast({ title: 'Rematch started', description: 'Colours have been swapped', duration: 3000 });
+  }, [startNewGame, toast]);
 
   const {
     socket,
     roomCode,
+    playerName,
     playerColor,
     isConnected,
     opponent,
+    timeControl,
+    isSpectator,
+    spectatorCount,
+    spectatedPlayers,
+    seeks,
+    mySeekId,
+    isQuickPairing,
     createRoom,
     joinRoom,
+    createSeek,
+    cancelSeek,
+    acceptSeek,
+    quickPair,
+    cancelQuickPair,
+    rematchStatus,
+    offerRematch,
+    respondToRematch,
+    takebackStatus,
+    requestTakeback,
+    respondToTakeback,
+    chatMessages,
+    sendChatMessage,
     sendMove,
     offerDraw: offerDrawOnline,
     resignGame: resignOnline,
@@ -1601,9 +3204,99 @@ const GameBoard: React.FC<{
     onMoveReceived: handleMoveReceived,
     onGameOver: handleGameOver,
     onDrawOffered: handleDrawOffered,
-    onGameStart: handleGameStart
+    onGameStart: handleGameStart,
+    onGameResync: handleGameResync,
+    onRematchStarted: handleRematchStarted
   });
 
+  const handleCreateRoom = useCallback((roomTimeControl: TimeControl) => {
+    createRoom(roomTimeControl, customStartFen);
+  }, [createRoom, customStartFen]);
+
+  // Forward a move just made on this board to the server
+  const sendNewMove = useCallback((previousHistoryLength: number) => {
+    if (game.history().length > previousHistoryLength && mode === 'online') {
+      const move = game.history({ verbose: true }).slice(-1)[0];
+      sendMove({ from: move.from, to: move.to, promotion: move.promotion as PromotionPiece | undefined });
+    }
+  }, [game, mode, sendMove]);
+
+  // Engine help would be cheating in a live game, so it is limited to local play and finished or paused games
+  const analysisAvailable = !isSpectator && (mode === 'local' || isGameOver || (mode === 'ai' && isViewingHistory));
+  // The review needs the engine to itself
+  const analysisActive = showAnalysis && analysisAvailable && !isReviewing;
+  const analysisFen = game.fen();
+  const { lines: analysisLines, depth: analysisDepth } = useEngineAnalysis(
+    analysisActive && !game.isGameOver() ? analysisFen : null,
+    analysisMultiPv
+  );
+
+  // The side the person at this board plays; local games have both
+  const humanColor = mode === 'online' ? playerColor : mode === 'ai' ? playAs : null;
+  const canPremove = !!humanColor && !isSpectator && !isGameOver && gameStarted && maxPremoves > 0 &&
+    (mode !== 'online' || !!opponent);
+  const premoveBoard = premoves.length > 0 ? applyPremoves(board, premoves) : board;
+  const premoveTargets = premoveSelection ? getPremoveTargets(premoveBoard, premoveSelection) : [];
+
+  // Hints and threats are for the player at the board, never for the AI's turn or a past position
+  const assistantAvailable = (mode === 'local' || (mode === 'ai' && currentPlayer === humanColor && !isAiThinking))
+    && !isGameOver && !isViewingHistory && !analysisActive && !isReviewing;
+  const { hint, threat, isThinking: isHintThinking, requestHint } = useMoveAssistant(
+    assistantAvailable ? analysisFen : null,
+    showThreats,
+    isInCheck
+  );
+  const assistantAnnotations: BoardAnnotation[] = [
+    ...(threat ? [{ ...threat, color: 'red' as const }] : []),
+    ...(hint ? [{ from: hint.from, to: hint.stage === 'move' ? hint.to : hint.from, color: 'green' as const }] : [])
+  ];
+
+  const handleHint = async () => {
+    const ply = gameHistory.length;
+    if (await requestHint()) {
+      setHintedPlies(prev => prev.includes(ply) ? prev : [...prev, ply]);
+    }
+  };
+
+  // Same select-then-target flow as a normal move, played on the board after the queued premoves
+  const handlePremoveSquare = (square: string) => {
+    if (premoveSelection && premoveTargets.includes(square)) {
+      setPremoves(prev => [...prev, { from: premoveSelection, to: square }]);
+      setPremoveSelection(null);
+      return;
+    }
+    const [row, column] = squareToIndex(square);
+    const piece = premoveBoard[row][column];
+    const isOwnPiece = piece?.color === humanColor?.[0];
+    setPremoveSelection(isOwnPiece && square !== premoveSelection && premoves.length < maxPremoves ? square : null);
+  };
+
+  // Play the next premove the moment the turn comes back; one that is no longer legal drops the queue
+  useEffect(() => {
+    if (premoves.length === 0 || currentPlayer !== humanColor || isViewingHistory || isGameOver) return;
+    const [next, ...rest] = premoves;
+    const currentHistory = game.history().length;
+    if (makeMove(next.from, next.to)) {
+      sendNewMove(currentHistory);
+      setPremoves(rest);
+    } else {
+      clearPremoves();
+    }
+  }, [premoves, currentPlayer, humanColor, isViewingHistory, isGameOver, game, makeMove, sendNewMove, clearPremoves]);
+
+  useEffect(() => {
+    if (isGameOver) {
+      clearPremoves();
+    }
+  }, [isGameOver, clearPremoves]);
+
+  // A half-picked premove has no meaning once it is our turn again
+  useEffect(() => {
+    if (currentPlayer === humanColor) {
+      setPremoveSelection(null);
+    }
+  }, [currentPlayer, humanColor]);
+
   // Update current player ref
   useEffect(() => {
     currentPlayerRef.current = currentPlayer;
@@ -1633,7 +3326,7 @@ const GameBoard: React.FC<{
     }
 
     // Don't start timer if waiting for opponent in online mode
-    if (mode === 'online' && !opponent) {
+    if (mode === 'online' && !opponent && !isSpectator) {
       console.log('Not starting timer - waiting for opponent');
       return;
     }
@@ -1649,6 +3342,8 @@ const GameBoard: React.FC<{
           const newTime = prev - 1;
           console.log('White time:', prev, '->', newTime);
           if (newTime <= 0) {
+            // Online flag fall is decided by the server
+            if (mode === 'online') return 0;
             handleGameOver("Time's up! Black wins");
             if (timerRef.current) {
               clearInterval(timerRef.current);
@@ -1663,6 +3358,7 @@ const GameBoard: React.FC<{
           const newTime = prev - 1;
           console.log('Black time:', prev, '->', newTime);
           if (newTime <= 0) {
+            if (mode === 'online') return 0;
             handleGameOver("Time's up! White wins");
             if (timerRef.current) {
               clearInterval(timerRef.current);
@@ -1685,21 +3381,22 @@ const GameBoard: React.FC<{
         timerRef.current = null;
       }
     };
-  }, [currentPlayer, isGameOver, gameStarted, mode, opponent, handleGameOver]);
+  }, [currentPlayer, isGameOver, gameStarted, mode, opponent, isSpectator, handleGameOver]);
 
   useEffect(() => {
-    if (mode === 'online' && opponent && !gameStarted) {
+    if (mode === 'online' && opponent && !gameStarted && !isGameOver) {
       console.log('Starting online game - opponent joined');
       setGameStarted(true);
-      setGameStatus('Game started! White to move');
+      // After a rejoin the game is already under way, so go by the current position
+      setGameStatus(`Game started! ${currentPlayer === 'white' ? 'White' : 'Black'} to move`);
     }
-  }, [mode, opponent, gameStarted]);
+  }, [mode, opponent, gameStarted, isGameOver, currentPlayer]);
 
   useEffect(() => {
     if ((mode === 'ai' || mode === 'local') && !gameStarted) {
       console.log('Auto-starting game for', mode, 'mode');
       setGameStarted(true);
-      setGameStatus('Game started! White to move');
+      setGameStatus(`Game started! ${getSideToMove(startFen)} to move`);
     }
   }, [mode]);
 
@@ -1717,11 +3414,15 @@ const GameBoard: React.FC<{
       setIsFlipped(true);
     } else if (mode === 'online' && playerColor === 'white') {
       setIsFlipped(false);
+    } else if (mode === 'ai') {
+      setIsFlipped(playAs === 'black');
     }
     
-    // Reset timers when mode changes
-    setWhiteTime(600);
-    setBlackTime(600);
+    // Reset timers when mode changes; online clocks only come from the server's snapshots
+    if (mode !== 'online') {
+      setWhiteTime(600);
+      setBlackTime(600);
+    }
     
     // Only reset gameStarted for online mode, not for local/AI modes
     if (mode === 'online') {
@@ -1732,7 +3433,7 @@ const GameBoard: React.FC<{
       clearInterval(timerInterval);
       setTimerInterval(null);
     }
-  }, [mode, playerColor]);
+  }, [mode, playerColor, playAs]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -1765,6 +3466,7 @@ const GameBoard: React.FC<{
           description: "AI accepted your draw offer",
           duration: 3000
         });
+        handleGameOver('Game drawn by agreement');
       } else {
         toast({ 
           title: "Draw Declined", 
@@ -1776,7 +3478,9 @@ const GameBoard: React.FC<{
   };
 
   const handleResign = () => {
-    const winner = currentPlayer === 'white' ? 'Black wins by resignation' : 'White wins by resignation';
+    // Against the AI it is always the human resigning, whoever's turn it is
+    const resigningColor = mode === 'ai' ? playAs : currentPlayer;
+    const winner = resigningColor === 'white' ? 'Black wins by resignation' : 'White wins by resignation';
     
     if (timerInterval) {
       clearInterval(timerInterval);
@@ -1790,6 +3494,108 @@ const GameBoard: React.FC<{
     }
   };
 
+  // Online games ask the opponent; local and AI games undo straight away
+  const handleTakeback = () => {
+    if (mode === 'online') {
+      requestTakeback();
+      return;
+    }
+    // Against the AI, also undo its reply so it is the human's move again
+    takeBack(mode === 'ai' && currentPlayer === playAs ? 2 : 1);
+  };
+
+  const moveNumbering = getMoveNumbering(startFen);
+  // Whoever moves first has played the odd ply out
+  const humanMovesFirst = (humanColor === 'black') === (moveNumbering.plyOffset === 1);
+  const ownMoveCount = humanMovesFirst ? Math.ceil(gameHistory.length / 2) : Math.floor(gameHistory.length / 2);
+  const canTakeBack = !isGameOver && gameStarted && (mode === 'online'
+    ? !isSpectator && ownMoveCount > 0 && takebackStatus === 'idle'
+    : (mode === 'ai' ? ownMoveCount > 0 : gameHistory.length > 0) && !isAiThinking);
+
+  const currentPly = isViewingHistory ? viewingMoveIndex : gameHistory.length - 1;
+
+  const getPgnPlayers = () => {
+    if (mode === 'online') {
+      if (isSpectator) return spectatedPlayers ?? { white: '?', black: '?' };
+      const opponentName = opponent || '?';
+      return playerColor === 'black' ? { white: opponentName, black: playerName } : { white: playerName, black: opponentName };
+    }
+    if (mode === 'ai') {
+      const engineName = `Stockfish (${aiRating})`;
+      return playAs === 'white' ? { white: 'Player', black: engineName } : { white: engineName, black: 'Player' };
+    }
+    return { white: '?', black: '?' };
+  };
+
+  const getPgn = () => buildPgn(gameHistory, {
+    event: mode === 'online' ? 'ChessSpace online game' : mode === 'ai' ? 'ChessSpace game vs AI' : 'ChessSpace local game',
+    ...getPgnPlayers(),
+    startedAt,
+    result: isGameOver ? getPgnResult(gameStatus) : '*',
+    termination: isGameOver ? gameStatus : undefined,
+    timeControl: mode === 'online' ? `${timeControl.initial}+${timeControl.increment}` : undefined,
+    hintedPlies,
+    startFen
+  });
+
+  const handleCopyPgn = async () => {
+    try {
+      await navigator.clipboard.writeText(getPgn());
+      toast({ title: "PGN Copied", description: "The game is on your clipboard", duration: 2000 });
+    } catch (error) {
+      console.error('Failed to copy PGN:', error);
+      toast({ title: "Copy Failed", description: "Use Download PGN instead", variant: "destructive", duration: 3000 });
+    }
+  };
+
+  const handleDownloadPgn = () => {
+    const date = startedAt.toISOString().slice(0, 10);
+    downloadPgn(getPgn(), `chessspace-${mode}-${date}.pgn`);
+  };
+
+  // Imported games open at their final position; a finished one shows its result straight away
+  useEffect(() => {
+    if (!importedGame || loadedImportRef.current === importedGame) return;
+    loadedImportRef.current = importedGame;
+    // A PGN without a FEN header starts from the standard position, whatever start is set on the menu
+    loadMoves(importedGame.moves, importedGame.startFen ?? DEFAULT_POSITION);
+    const date = importedGame.headers.Date?.replace(/\./g, '-');
+    if (date && !Number.isNaN(Date.parse(date))) {
+      setStartedAt(new Date(date));
+    }
+    if (importedGame.result !== '*') {
+      setIsGameOver(true);
+      setGameStatus(importedGame.headers.Termination || `Game ended ${importedGame.result}`);
+    }
+  }, [importedGame, loadMoves]);
+
+  const handleStartReview = () => {
+    setShowReview(true);
+    startReview(gameHistory, startFen);
+  };
+
+  const handleOpenAnalysisBoard = () => {
+    const state: AnalysisLaunch = { fen: startFen, moves: gameHistory };
+    navigate('/analysis', { state });
+  };
+
+  const handleCloseReview = () => {
+    cancelReview();
+    setShowReview(false);
+  };
+
+  const handleAnnotationsChange = (plyAnnotations: BoardAnnotation[]) => {
+    setAnnotations(prev => ({ ...prev, [currentPly]: plyAnnotations }));
+  };
+
+  // Drawings on positions that were taken back no longer belong to any move
+  useEffect(() => {
+    setAnnotations(prev => Object.fromEntries(
+      Object.entries(prev).filter(([ply]) => Number(ply) < gameHistory.length)
+    ));
+    setHintedPlies(prev => prev.filter(ply => ply < gameHistory.length));
+  }, [gameHistory.length]);
+
   const handleAcceptDraw = () => {
     setShowDrawOffer(false);
     
@@ -1800,8 +3606,17 @@ const GameBoard: React.FC<{
     
     if (mode === 'online') {
       acceptDraw();
+    } else {
+      handleGameOver('Game drawn by agreement');
+    }
+  };
+
+  const handleRematch = () => {
+    if (mode === 'online') {
+      offerRematch();
+    } else {
+      startNewGame();
     }
-    handleGameOver('Game drawn by agreement');
   };
 
   const handleDeclineDraw = () => {
@@ -1881,11 +3696,29 @@ const GameBoard: React.FC<{
             isConnected={isConnected}
             opponent={opponent}
             playerColor={playerColor}
-            onCreateRoom={createRoom}
+            onCreateRoom={handleCreateRoom}
             onJoinRoom={joinRoom}
+            onSpectateRoom={(code) => joinRoom(code, true)}
             waitingForOpponent={roomCode && !opponent && playerColor === 'white'}
             gameStarted={gameStarted}
+            hasCustomStart={customStartFen !== DEFAULT_POSITION}
           />
+
+          {!roomCode && (
+            <div className="mt-4">
+              <LobbyPanel
+                isConnected={isConnected}
+                seeks={seeks}
+                mySeekId={mySeekId}
+                isQuickPairing={isQuickPairing}
+                onCreateSeek={createSeek}
+                onCancelSeek={cancelSeek}
+                onAcceptSeek={acceptSeek}
+                onQuickPair={quickPair}
+                onCancelQuickPair={cancelQuickPair}
+              />
+            </div>
+          )}
         </div>
       </div>
     );
@@ -1909,7 +3742,18 @@ const GameBoard: React.FC<{
                 Menu
               </Button>
               
-              <ThemeToggle />
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowSettings(true)}
+                  className="h-9 w-9 hover:bg-secondary/80 transition-colors"
+                  title="Settings"
+                >
+                  <Settings className="h-4 w-4" />
+                </Button>
+                <ThemeToggle />
+              </div>
             </div>
             
             <div className="flex items-center justify-between">
@@ -1918,7 +3762,7 @@ const GameBoard: React.FC<{
                   variant="secondary" 
                   className="text-xs px-2 py-1 font-semibold bg-primary/10 text-primary border-primary/20"
                 >
-                  {mode === 'ai' ? `♔ AI (${aiDifficulty})` : mode === 'local' ? '♔ Local' : '♔ Online'}
+                  {mode === 'ai' ? `♔ AI (${aiRating})` : mode === 'local' ? '♔ Local' : `♔ Online ${formatTimeControl(timeControl)}`}
                 </Badge>
                 <Badge 
                   variant="outline" 
@@ -1926,6 +3770,12 @@ const GameBoard: React.FC<{
                 >
                   {mode === 'online' && !gameStarted && opponent ? 'Starting...' : gameStatus}
                 </Badge>
+                {mode === 'online' && spectatorCount > 0 && (
+                  <Badge variant="outline" className="text-xs px-2 py-1 font-medium" title="Spectators">
+                    <Eye className="h-3 w-3 mr-1" />
+                    {spectatorCount}
+                  </Badge>
+                )}
               </div>
               
               <div className="flex gap-1">
@@ -1978,7 +3828,7 @@ const GameBoard: React.FC<{
                   variant="secondary" 
                   className="text-sm px-3 py-1.5 font-semibold bg-primary/10 text-primary border-primary/20"
                 >
-                  {mode === 'ai' ? `♔ vs AI (${aiDifficulty})` : mode === 'local' ? '♔ Local Game' : '♔ Online Game'}
+                  {mode === 'ai' ? `♔ vs AI (${aiRating} ${getAiRatingLabel(aiRating)})` : mode === 'local' ? '♔ Local Game' : `♔ Online Game (${formatTimeControl(timeControl)})`}
                 </Badge>
                 <Badge 
                   variant="outline" 
@@ -1986,6 +3836,17 @@ const GameBoard: React.FC<{
                 >
                   {mode === 'online' && !gameStarted && opponent ? 'Starting game...' : gameStatus}
                 </Badge>
+                {isSpectator && spectatedPlayers && (
+                  <Badge variant="outline" className="text-sm px-3 py-1.5 font-medium">
+                    Watching {spectatedPlayers.white} vs {spectatedPlayers.black}
+                  </Badge>
+                )}
+                {mode === 'online' && spectatorCount > 0 && (
+                  <Badge variant="outline" className="text-sm px-3 py-1.5 font-medium" title="Spectators">
+                    <Eye className="h-4 w-4 mr-1" />
+                    {spectatorCount} watching
+                  </Badge>
+                )}
               </div>
             </div>
 
@@ -2019,7 +3880,16 @@ const GameBoard: React.FC<{
                 </div>
               </div>
               
-              <div className="ml-2">
+              <div className="ml-2 flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowSettings(true)}
+                  className="h-9 w-9 hover:bg-secondary/80 transition-colors"
+                  title="Settings"
+                >
+                  <Settings className="h-4 w-4" />
+                </Button>
                 <ThemeToggle />
               </div>
             </div>
@@ -2030,11 +3900,14 @@ const GameBoard: React.FC<{
       {/* Main Game Area */}
       <div className="flex-1 flex flex-col lg:flex-row gap-1 sm:gap-2 md:gap-4 lg:gap-6 max-w-7xl mx-auto w-full p-1 sm:p-2 md:p-4">
         <div className="flex-1 flex items-center justify-center order-1 lg:order-2 min-h-0 px-1 sm:px-2 md:px-4">
-          <div className="w-full max-w-[280px] xs:max-w-xs sm:max-w-sm md:max-w-md lg:max-w-none">
+          <div className="w-full max-w-[280px] xs:max-w-xs sm:max-w-sm md:max-w-md lg:max-w-none flex items-center justify-center gap-1 sm:gap-2">
+            {analysisActive && (
+              <EvaluationBar score={analysisLines[0]?.score ?? null} isFlipped={isFlipped} />
+            )}
             <ChessBoard 
-              board={board}
-              selectedSquare={selectedSquare}
-              validMoves={validMoves}
+              board={premoveBoard}
+              selectedSquare={premoveSelection ?? selectedSquare}
+              validMoves={premoveSelection ? premoveTargets : validMoves}
               onSquareClick={handleSelectSquare}
               isFlipped={isFlipped}
               mode={mode}
@@ -2042,6 +3915,17 @@ const GameBoard: React.FC<{
               isInCheck={isInCheck}
               checkmateSquare={checkmateSquare}
               isViewingHistory={isViewingHistory}
+              readOnly={isSpectator}
+              promotion={pendingPromotion}
+              animationDuration={animationsEnabled && !prefersReducedMotion ? animationDuration : 0}
+              lastMove={lastMove}
+              annotations={annotations[currentPly] ?? []}
+              engineAnnotations={assistantAnnotations}
+              onAnnotationsChange={handleAnnotationsChange}
+              premoves={premoves}
+              onPremovesCancel={premoves.length > 0 || premoveSelection ? clearPremoves : undefined}
+              onPromotionSelect={handlePromotionSelect}
+              onPromotionCancel={cancelPromotion}
             />
             
 
@@ -2062,18 +3946,100 @@ const GameBoard: React.FC<{
                     variant="outline" 
                     size="sm" 
                     className="flex-1 text-xs sm:text-sm h-8 sm:h-9" 
-                    disabled={isGameOver}
+                    disabled={isGameOver || isSpectator}
                   >
                     Draw
                   </Button>
-                  <Button onClick={handleResign} variant="destructive" size="sm" className="flex-1 text-xs sm:text-sm h-8 sm:h-9" disabled={isGameOver}>
+                  <Button onClick={handleTakeback} variant="outline" size="sm" className="flex-1 text-xs sm:text-sm h-8 sm:h-9" disabled={!canTakeBack}>
+                    Undo
+                  </Button>
+                  <Button onClick={handleResign} variant="destructive" size="sm" className="flex-1 text-xs sm:text-sm h-8 sm:h-9" disabled={isGameOver || isSpectator}>
                     Resign
                   </Button>
                 </div>
+                <div className="flex gap-1 sm:gap-2 mt-1 sm:mt-2">
+                  <Button onClick={handleCopyPgn} variant="outline" size="sm" className="flex-1 text-xs sm:text-sm h-8 sm:h-9" disabled={gameHistory.length === 0}>
+                    Copy PGN
+                  </Button>
+                  <Button onClick={handleDownloadPgn} variant="outline" size="sm" className="flex-1 text-xs sm:text-sm h-8 sm:h-9" disabled={gameHistory.length === 0}>
+                    Download PGN
+                  </Button>
+                </div>
 
               </CardContent>
             </Card>
 
+            {mode !== 'online' && !isGameOver && (
+              <div className="mt-2 sm:mt-3">
+                <AssistantPanel
+                  available={assistantAvailable}
+                  hint={hint}
+                  isThinking={isHintThinking}
+                  onHint={handleHint}
+                  showThreats={showThreats}
+                  onShowThreatsChange={setShowThreats}
+                  hintsUsed={hintedPlies.length}
+                  compact
+                />
+              </div>
+            )}
+
+            {isGameOver && (
+              <div className="mt-2 sm:mt-3">
+                <GameOverPanel
+                  result={gameStatus}
+                  mode={mode}
+                  isSpectator={isSpectator}
+                  canRematch={mode !== 'online' || !!opponent}
+                  rematchStatus={rematchStatus}
+                  onRematch={handleRematch}
+                  onRespondToRematch={respondToRematch}
+                  onBackToMenu={onBackToMenu}
+                  onReview={showReview || gameHistory.length === 0 ? undefined : handleStartReview}
+                  onOpenAnalysisBoard={handleOpenAnalysisBoard}
+                />
+              </div>
+            )}
+
+            {mode === 'online' && roomCode && (
+              <div className="mt-2 sm:mt-3">
+                <ChatPanel
+                  messages={chatMessages}
+                  opponent={opponent}
+                  isSpectator={isSpectator}
+                  onSend={sendChatMessage}
+                  compact
+                />
+              </div>
+            )}
+
+            {showReview && (
+              <div className="mt-2 sm:mt-3">
+                <GameReviewPanel
+                  review={review}
+                  progress={reviewProgress}
+                  currentPly={currentPly}
+                  onNavigate={navigateToMove}
+                  onClose={handleCloseReview}
+                  startFen={startFen}
+                />
+              </div>
+            )}
+
+            <div className="mt-2 sm:mt-3">
+              <AnalysisPanel
+                enabled={showAnalysis}
+                available={analysisAvailable}
+                onToggle={setShowAnalysis}
+                fen={analysisFen}
+                lines={analysisLines}
+                depth={analysisDepth}
+                multiPv={analysisMultiPv}
+                onMultiPvChange={setAnalysisMultiPv}
+                compact
+              />
+            </div>
+
             {/* Mobile Move History */}
             <Card className="panel border shadow-lg mt-2 sm:mt-3">
               <CardHeader className="pb-2 px-3 pt-3">
@@ -2094,33 +4060,36 @@ const GameBoard: React.FC<{
                       <div className="font-semibold text-muted-foreground px-1 py-1">W</div>
                       <div className="font-semibold text-muted-foreground px-1 py-1">B</div>
                       
-                      {Array.from({ length: Math.ceil(gameHistory.length / 2) }, (_, i) => {
-                        const whiteMove = gameHistory[i * 2];
-                        const blackMove = gameHistory[i * 2 + 1];
+                      {Array.from({ length: Math.ceil((gameHistory.length + moveNumbering.plyOffset) / 2) }, (_, i) => {
+                        const whitePly = i * 2 - moveNumbering.plyOffset;
+                        const whiteMove = gameHistory[whitePly];
+                        const blackMove = gameHistory[whitePly + 1];
                         return (
                           <React.Fragment key={i}>
                             <div className="move-number px-1 py-1">
-                              {i + 1}
+                              {moveNumbering.firstMoveNumber + i}
                             </div>
                             <div 
                               className={cn(
                                 "move-cell px-1 py-1",
-                                isViewingHistory && viewingMoveIndex === i * 2 && "move-cell-active",
-                                !isViewingHistory && (gameHistory.length - 1) === i * 2 && "move-cell-current"
+                                whiteMove && isViewingHistory && viewingMoveIndex === whitePly && "move-cell-active",
+                                whiteMove && !isViewingHistory && (gameHistory.length - 1) === whitePly && "move-cell-current"
                               )}
-                              onClick={() => navigateToMove(i * 2)}
+                              onClick={() => whiteMove && navigateToMove(whitePly)}
                             >
-                              {whiteMove}
+                              {whiteMove || "..."}
+                              {hintedPlies.includes(whitePly) && <HintMarker />}
                             </div>
                             <div 
                               className={cn(
                                 "move-cell px-1 py-1",
-                                isViewingHistory && viewingMoveIndex === i * 2 + 1 && "move-cell-active",
-                                !isViewingHistory && (gameHistory.length - 1) === i * 2 + 1 && "move-cell-current"
+                                isViewingHistory && viewingMoveIndex === whitePly + 1 && "move-cell-active",
+                                !isViewingHistory && (gameHistory.length - 1) === whitePly + 1 && "move-cell-current"
                               )}
-                              onClick={() => blackMove && navigateToMove(i * 2 + 1)}
+                              onClick={() => blackMove && navigateToMove(whitePly + 1)}
                             >
                               {blackMove || "..."}
+                              {hintedPlies.includes(whitePly + 1) && <HintMarker />}
                             </div>
                           </React.Fragment>
                         );
@@ -2241,19 +4210,92 @@ const GameBoard: React.FC<{
                 }}
                 onNavigateToMove={navigateToMove}
                 isGameOver={game.isGameOver()}
+                hintedPlies={hintedPlies}
+                startFen={startFen}
+              />
+            </div>
+
+            {showReview && (
+              <div className="mt-4">
+                <GameReviewPanel
+                  review={review}
+                  progress={reviewProgress}
+                  currentPly={currentPly}
+                  onNavigate={navigateToMove}
+                  onClose={handleCloseReview}
+                  startFen={startFen}
+                />
+              </div>
+            )}
+
+            <div className="mt-4">
+              <AnalysisPanel
+                enabled={showAnalysis}
+                available={analysisAvailable}
+                onToggle={setShowAnalysis}
+                fen={analysisFen}
+                lines={analysisLines}
+                depth={analysisDepth}
+                multiPv={analysisMultiPv}
+                onMultiPvChange={setAnalysisMultiPv}
               />
             </div>
             
+            {mode === 'online' && roomCode && (
+              <div className="mt-4">
+                <ChatPanel
+                  messages={chatMessages}
+                  opponent={opponent}
+                  isSpectator={isSpectator}
+                  onSend={sendChatMessage}
+                />
+              </div>
+            )}
+
             {/* Game Controls - 30% of space */}
             <div className="mt-4">
               <GameControls 
                 onFlipBoard={handleFlipBoard}
                 onResign={handleResign}
-                onOfferDraw={handleOfferDraw}
-                isGameOver={isGameOver}
+                onOfferDraw={isSpectator ? undefined : handleOfferDraw}
+                onTakeback={canTakeBack ? handleTakeback : undefined}
+                onCopyPgn={gameHistory.length > 0 ? handleCopyPgn : undefined}
+                onDownloadPgn={gameHistory.length > 0 ? handleDownloadPgn : undefined}
+                isGameOver={isGameOver || isSpectator}
               />
             </div>
 
+            {mode !== 'online' && !isGameOver && (
+              <div className="mt-4">
+                <AssistantPanel
+                  available={assistantAvailable}
+                  hint={hint}
+                  isThinking={isHintThinking}
+                  onHint={handleHint}
+                  showThreats={showThreats}
+                  onShowThreatsChange={setShowThreats}
+                  hintsUsed={hintedPlies.length}
+                />
+              </div>
+            )}
+
+            {isGameOver && (
+              <div className="mt-4">
+                <GameOverPanel
+                  result={gameStatus}
+                  mode={mode}
+                  isSpectator={isSpectator}
+                  canRematch={mode !== 'online' || !!opponent}
+                  rematchStatus={rematchStatus}
+                  onRematch={handleRematch}
+                  onRespondToRematch={respondToRematch}
+                  onBackToMenu={onBackToMenu}
+                  onReview={showReview || gameHistory.length === 0 ? undefined : handleStartReview}
+                  onOpenAnalysisBoard={handleOpenAnalysisBoard}
+                />
+              </div>
+            )}
+
             {isViewingHistory && (
               <Card className="panel border-2 border-orange-200 dark:border-orange-800 shadow-lg">
                 <CardContent className="p-3">
@@ -2284,10 +4326,11 @@ const GameBoard: React.FC<{
                 isConnected={isConnected}
                 opponent={opponent}
                 playerColor={playerColor}
-                onCreateRoom={createRoom}
+                onCreateRoom={handleCreateRoom}
                 onJoinRoom={joinRoom}
                 waitingForOpponent={!opponent}
                 gameStarted={gameStarted}
+                hasCustomStart={customStartFen !== DEFAULT_POSITION}
               />
             )}
           </div>
@@ -2300,24 +4343,64 @@ const GameBoard: React.FC<{
         onDecline={handleDeclineDraw}
         playerName={mode === 'online' ? opponent : 'Your opponent'}
       />
+
+      <TakebackRequestDialog
+        isVisible={mode === 'online' && takebackStatus === 'received'}
+        onRespond={respondToTakeback}
+        playerName={opponent}
+      />
+
+      <SettingsDialog isOpen={showSettings} onClose={() => setShowSettings(false)} />
     </div>
   );
 };
 
 const ChessGame: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>('menu');
-  const [gameMode, setGameMode] = useState<GameMode>('local');
-  const [aiDifficulty, setAiDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const socket = useSocket();
+  // A position sent from the board editor starts its game straight away
+  const [editorLaunch, setEditorLaunch] = useState(() => location.state as EditorLaunch | null);
+  // Go straight back to the online game if this tab still holds a seat in one
+  const [gameState, setGameState] = useState<GameState>(() => editorLaunch || loadOnlineSeat() ? 'playing' : 'menu');
+  const [gameMode, setGameMode] = useState<GameMode>(() => editorLaunch?.mode ?? (loadOnlineSeat() ? 'online' : 'local'));
+  const [aiRating, setAiRating] = useState(DEFAULT_AI_RATING);
+  // The person who set up the position plays the side to move in it
+  const [playAs, setPlayAs] = useState<'white' | 'black'>(() =>
+    editorLaunch?.mode === 'ai' && getSideToMove(editorLaunch.fen) === 'Black' ? 'black' : 'white');
+  const [importedGame, setImportedGame] = useState<ImportedGame | null>(null);
+  const [startFen, setStartFen] = useState(editorLaunch?.fen ?? DEFAULT_POSITION);
+
+  // Once taken, the launch is dropped so a refresh returns to the menu instead of restarting it
+  useEffect(() => {
+    if (editorLaunch) {
+      navigate('.', { replace: true, state: null });
+    }
+  }, [editorLaunch, navigate]);
 
-  const handleStartGame = (mode: GameMode, difficulty?: 'easy' | 'medium' | 'hard') => {
+  const handleStartGame = (mode: GameMode, rating?: number, colorPreference: ColorPreference = 'white') => {
     setGameMode(mode);
-    if (difficulty) {
-      setAiDifficulty(difficulty);
+    setImportedGame(null);
+    if (rating) {
+      setAiRating(rating);
+    }
+    if (mode === 'ai') {
+      setPlayAs(colorPreference === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : colorPreference);
     }
     setGameState('playing');
   };
 
+  const handleImportGame = (game: ImportedGame) => {
+    setImportedGame(game);
+    setGameMode('local');
+    setGameState('playing');
+  };
+
   const handleBackToMenu = () => {
+    // Tell the server first, or it would keep the seat and the opponent's game running
+    socket.emit('leave_room');
+    clearOnlineSeat();
+    setEditorLaunch(null);
     setGameState('menu');
   };
 
@@ -2325,13 +4408,21 @@ const ChessGame: React.FC = () => {
     <div className="min-h-screen flex items-center justify-center">
       {gameState === 'menu' ? (
         <div className="p-4 w-full max-w-4xl">
-          <MenuScreen onStartGame={handleStartGame} />
+          <MenuScreen
+            onStartGame={handleStartGame}
+            onImportGame={handleImportGame}
+            startFen={startFen}
+            onStartFenChange={setStartFen}
+          />
         </div>
       ) : (
         <div className="w-full">
           <GameBoard 
             mode={gameMode} 
-            aiDifficulty={aiDifficulty}
+            aiRating={aiRating}
+            playAs={playAs}
+            importedGame={importedGame}
+            startFen={startFen}
             onBackToMenu={handleBackToMenu}
           />
         </div>
@@ -2343,12 +4434,14 @@ const ChessGame: React.FC = () => {
 const ChessGameWithTheme: React.FC = () => {
   return (
     <ThemeProvider defaultTheme="dark" storageKey="chess-app-theme">
-      <SocketProvider>
-        <ChessGame />
-      </SocketProvider>
+      <BoardSettingsProvider>
+        <SocketProvider>
+          <ChessGame />
+        </SocketProvider>
+      </BoardSettingsProvider>
     </ThemeProvider>
   );
 };
 
 export default ChessGameWithTheme;
-export { ThemeProvider, useTheme };
+export { ThemeProvider, ThemeToggle, useTheme, AnalysisPanel, EvaluationBar };
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { AnalysisLine, isAbortError, searchPosition } from '../utils/stockfish';
+
+const ANALYSIS_DEPTH = 22;
+
+// Live Stockfish lines for a position; analysis restarts whenever the position changes
+export const useEngineAnalysis = (fen: string | null, multiPv = 1) => {
+  const [lines, setLines] = useState<AnalysisLine[]>([]);
+
+  useEffect(() => {
+    setLines([]);
+    if (!fen) {
+      return;
+    }
+    const controller = new AbortController();
+    searchPosition({ fen, limits: { depth: ANALYSIS_DEPTH }, multiPv, signal: controller.signal, onInfo: setLines })
+      .catch(error => {
+        if (!isAbortError(error)) {
+          console.error('Analysis failed:', error);
+        }
+      });
+    return () => controller.abort();
+  }, [fen, multiPv]);
+
+  return { lines, depth: lines[0]?.depth ?? 0 };
+};
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Chess } from 'chess.js';
+import { EngineScore, isAbortError, searchPosition } from '../utils/stockfish';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface ReviewedMove {
+  san: string;
+  color: 'white' | 'black';
+  classification: MoveClassification;
+  // Centipawns the move gave away compared with the position before it
+  centipawnLoss: number;
+  // The engine's preferred move in SAN, when the played move was not it
+  bestMove: string | null;
+}
+
+export interface GameReview {
+  moves: ReviewedMove[];
+  // Evaluation in centipawns from White's point of view, one per position including the start
+  evaluations: number[];
+  accuracy: { white: number; black: number };
+}
+
+const REVIEW_DEPTH = 12;
+// Mates are counted as a large but finite score so losses stay comparable
+const MATE_SCORE = 1000;
+
+const toCentipawns = (score: EngineScore) => {
+  if (score.type === 'mate') {
+    return score.value >= 0 ? MATE_SCORE : -MATE_SCORE;
+  }
+  return Math.max(-MATE_SCORE, Math.min(MATE_SCORE, score.value));
+};
+
+const classifyMove = (loss: number, isBest: boolean): MoveClassification => {
+  if (isBest || loss <= 10) return 'best';
+  if (loss < 50) return 'good';
+  if (loss < 100) return 'inaccuracy';
+  if (loss < 300) return 'mistake';
+  return 'blunder';
+};
+
+// Accuracy as used by the major sites: how much winning chance each move kept
+const winChance = (centipawns: number) => 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * centipawns)) - 1);
+
+const moveAccuracy = (before: number, after: number) => {
+  const accuracy = 103.1668 * Math.exp(-0.04354 * Math.max(0, winChance(before) - winChance(after))) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+};
+
+const average = (values: number[]) =>
+  values.length === 0 ? 100 : Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+
+// Runs Stockfish over every position of a finished game, one position at a time
+export const useGameReview = () => {
+  const [review, setReview] = useState<GameReview | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancelReview = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsReviewing(false);
+  }, []);
+
+  const startReview = useCallback(async (history: string[], startFen?: string) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setReview(null);
+    setProgress(0);
+    setIsReviewing(true);
+
+    const game = new Chess(startFen);
+    const fens = [game.fen()];
+    const verboseMoves = [];
+    for (const san of history) {
+      verboseMoves.push(game.move(san));
+      fens.push(game.fen());
+    }
+
+    const evaluations: number[] = [];
+    const bestMoves: (string | null)[] = [];
+    try {
+      for (const fen of fens) {
+        const position = new Chess(fen);
+        if (position.isCheckmate()) {
+          // The side to move has been mated
+          evaluations.push(position.turn() === 'w' ? -MATE_SCORE : MATE_SCORE);
+          bestMoves.push(null);
+        } else if (position.isDraw() || position.isStalemate()) {
+          evaluations.push(0);
+          bestMoves.push(null);
+        } else {
+          const { score, bestMove } = await searchPosition({
+            fen,
+            limits: { depth: REVIEW_DEPTH },
+            signal: controller.signal
+          });
+          evaluations.push(score ? toCentipawns(score) : 0);
+          bestMoves.push(bestMove);
+        }
+        setProgress(evaluations.length / fens.length);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Game review failed:', error);
+        setIsReviewing(false);
+      }
+      return;
+    }
+    if (controller.signal.aborted) return;
+
+    const moves: ReviewedMove[] = verboseMoves.map((move, index) => {
+      const sign = move.color === 'w' ? 1 : -1;
+      const loss = Math.max(0, (evaluations[index] - evaluations[index + 1]) * sign);
+      const uci = `${move.from}${move.to}${move.promotion ?? ''}`;
+      const engineMove = bestMoves[index];
+      let bestMoveSan: string | null = null;
+      if (engineMove && engineMove !== uci) {
+        try {
+          bestMoveSan = new Chess(fens[index]).move({
+            from: engineMove.slice(0, 2),
+            to: engineMove.slice(2, 4),
+            promotion: engineMove[4]
+          }).san;
+        } catch {
+          bestMoveSan = null;
+        }
+      }
+      return {
+        san: move.san,
+        color: move.color === 'w' ? 'white' : 'black',
+        classification: classifyMove(loss, engineMove === uci),
+        centipawnLoss: Math.round(loss),
+        bestMove: bestMoveSan
+      };
+    });
+
+    const accuracies = { white: [] as number[], black: [] as number[] };
+    verboseMoves.forEach((move, index) => {
+      const sign = move.color === 'w' ? 1 : -1;
+      accuracies[move.color === 'w' ? 'white' : 'black'].push(
+        moveAccuracy(evaluations[index] * sign, evaluations[index + 1] * sign)
+      );
+    });
+
+    setReview({
+      moves,
+      evaluations,
+      accuracy: { white: average(accuracies.white), black: average(accuracies.black) }
+    });
+    setIsReviewing(false);
+  }, []);
+
+  // Leaving the screen stops the engine mid-review
+  useEffect(() => cancelReview, [cancelReview]);
+
+  return { review, progress, isReviewing, startReview, cancelReview };
+};
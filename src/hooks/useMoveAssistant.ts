@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError, searchPosition } from '../utils/stockfish';
+
+const ASSIST_DEPTH = 12;
+
+export type SuggestedMove = { from: string; to: string };
+
+// A hint shows the piece to move first and the whole move only when asked again
+export type Hint = SuggestedMove & { stage: 'piece' | 'move' };
+
+const toSuggestedMove = (uci: string | null): SuggestedMove | null =>
+  uci ? { from: uci.slice(0, 2), to: uci.slice(2, 4) } : null;
+
+// The same position with the other side to move, as if the player had passed
+const getNullMoveFen = (fen: string) => {
+  const fields = fen.split(' ');
+  fields[1] = fields[1] === 'w' ? 'b' : 'w';
+  fields[3] = '-';
+  return fields.join(' ');
+};
+
+// Hints and threats for the side to move; pass a null fen whenever the assistant must stay quiet
+export const useMoveAssistant = (fen: string | null, showThreats: boolean, isInCheck: boolean) => {
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [threat, setThreat] = useState<SuggestedMove | null>(null);
+  const [isThinking, setIsThinking] = useState(false);
+  // Aborted whenever the position changes, so a late answer never lands on the wrong board
+  const hintControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setHint(null);
+    setThreat(null);
+    // Passing is not legal in check, and the check itself is the threat
+    if (!fen || !showThreats || isInCheck) {
+      return;
+    }
+    const controller = new AbortController();
+    searchPosition({ fen: getNullMoveFen(fen), limits: { depth: ASSIST_DEPTH }, signal: controller.signal })
+      .then(result => setThreat(toSuggestedMove(result.bestMove)))
+      .catch(error => {
+        if (!isAbortError(error)) {
+          console.error('Threat search failed:', error);
+        }
+      });
+    return () => controller.abort();
+  }, [fen, showThreats, isInCheck]);
+
+  useEffect(() => () => hintControllerRef.current?.abort(), [fen]);
+
+  // Returns true when the press revealed something new, so callers can record hint usage
+  const requestHint = useCallback(async () => {
+    if (!fen) return false;
+    if (hint) {
+      if (hint.stage === 'move') return false;
+      setHint({ ...hint, stage: 'move' });
+      return true;
+    }
+    const controller = new AbortController();
+    hintControllerRef.current = controller;
+    setIsThinking(true);
+    try {
+      const result = await searchPosition({ fen, limits: { depth: ASSIST_DEPTH }, signal: controller.signal });
+      const move = toSuggestedMove(result.bestMove);
+      if (!move) return false;
+      setHint({ ...move, stage: 'piece' });
+      return true;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Hint search failed:', error);
+      }
+      return false;
+    } finally {
+      setIsThinking(false);
+    }
+  }, [fen, hint]);
+
+  return { hint, threat, isThinking, requestHint };
+};
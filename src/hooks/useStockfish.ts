@@ -1,17 +1,54 @@
+import { searchPosition, SearchLimits, SearchResult } from '../utils/stockfish';
 
-import { getBestMove as getBestMoveFromWorker } from '../utils/stockfish';
+export const AI_RATING_MIN = 400;
+export const AI_RATING_MAX = 3000;
+export const DEFAULT_AI_RATING = 1500;
+
+export const AI_RATING_PRESETS: { label: string; rating: number }[] = [
+  { label: 'Beginner', rating: 600 },
+  { label: 'Casual', rating: 1000 },
+  { label: 'Club', rating: 1500 },
+  { label: 'Expert', rating: 2000 },
+  { label: 'Master', rating: 2500 },
+  { label: 'Maximum', rating: 3000 }
+];
+
+// The name of the strongest preset at or below a rating, e.g. 1700 is "Club"
+export const getAiRatingLabel = (rating: number) =>
+  [...AI_RATING_PRESETS].reverse().find(preset => rating >= preset.rating)?.label ?? AI_RATING_PRESETS[0].label;
+
+// Extra time the worker gets beyond the thinking time before the search is cut short
+const SEARCH_TIMEOUT_MARGIN = 5000;
+
+// Stockfish only accepts UCI_Elo from 1320; weaker levels use Skill Level 0 and a shallow search instead
+const STOCKFISH_MIN_ELO = 1320;
+
+// Weaker levels also answer faster, so the game doesn't drag
+const getThinkingTime = (rating: number) => {
+  const strength = (rating - AI_RATING_MIN) / (AI_RATING_MAX - AI_RATING_MIN);
+  return Math.round(500 + strength * 2500);
+};
 
 // A simple hook to wrap the Stockfish utility functions.
 export const useStockfish = () => {
-  const getBestMove = (fen: string, difficulty: 'easy' | 'medium' | 'hard'): Promise<string> => {
-    const depthMap = {
-      'easy': 3,
-      'medium': 8,
-      'hard': 15
+  const getBestMove = (fen: string, rating: number, signal?: AbortSignal): Promise<SearchResult> => {
+    const movetime = getThinkingTime(rating);
+    const timeout = movetime + SEARCH_TIMEOUT_MARGIN;
+    if (rating >= STOCKFISH_MIN_ELO) {
+      return searchPosition({
+        fen,
+        limits: { movetime },
+        strength: { elo: Math.min(rating, AI_RATING_MAX), skillLevel: 20 },
+        signal,
+        timeout
+      });
+    }
+    const limits: SearchLimits = {
+      movetime,
+      depth: 1 + Math.round((rating - AI_RATING_MIN) / (STOCKFISH_MIN_ELO - AI_RATING_MIN) * 4)
     };
-    const depth = depthMap[difficulty];
-    console.log(`Getting Stockfish move at depth ${depth} for difficulty ${difficulty}`);
-    return getBestMoveFromWorker(fen, depth);
+    console.log(`Getting Stockfish move at skill level 0, depth ${limits.depth} for rating ${rating}`);
+    return searchPosition({ fen, limits, strength: { skillLevel: 0 }, signal, timeout });
   };
 
   return { getBestMove };
@@ -0,0 +1,158 @@
+import { Chess, Move } from 'chess.js';
+
+export interface MoveNode {
+  id: string;
+  // Null only for the root, which holds the starting position and no move
+  parentId: string | null;
+  san: string;
+  from: string;
+  to: string;
+  // The position after the move
+  fen: string;
+  moveNumber: number;
+  color: 'w' | 'b';
+  // The first child continues the line; any others are variations branching off here
+  children: string[];
+}
+
+// Nodes are replaced, never changed in place, so every edit yields a new tree for React state
+export interface MoveTree {
+  rootId: string;
+  nodes: Record<string, MoveNode>;
+  nextId: number;
+}
+
+export type TreeMove = string | { from: string; to: string; promotion?: string };
+
+export const createMoveTree = (fen: string, moves: string[] = []): MoveTree => {
+  const [, turn, , , , fullMove] = fen.split(' ');
+  let tree: MoveTree = {
+    rootId: '0',
+    nodes: {
+      '0': {
+        id: '0',
+        parentId: null,
+        san: '',
+        from: '',
+        to: '',
+        fen,
+        moveNumber: Number(fullMove) || 1,
+        color: turn === 'b' ? 'w' : 'b',
+        children: []
+      }
+    },
+    nextId: 1
+  };
+  let parentId = tree.rootId;
+  for (const move of moves) {
+    const result = addMove(tree, parentId, move);
+    if (!result) break;
+    ({ tree, nodeId: parentId } = result);
+  }
+  return tree;
+};
+
+// Plays a move after the given node; a move that is already there is reused rather than duplicated.
+// Returns null when the move is not legal in that position.
+export const addMove = (tree: MoveTree, parentId: string, move: TreeMove): { tree: MoveTree; nodeId: string } | null => {
+  const parent = tree.nodes[parentId];
+  const position = new Chess(parent.fen);
+  const moveNumber = position.moveNumber();
+  let played: Move;
+  try {
+    played = position.move(move);
+  } catch {
+    return null;
+  }
+  const existing = parent.children.find(childId => tree.nodes[childId].san === played.san);
+  if (existing) {
+    return { tree, nodeId: existing };
+  }
+  const nodeId = String(tree.nextId);
+  const node: MoveNode = {
+    id: nodeId,
+    parentId,
+    san: played.san,
+    from: played.from,
+    to: played.to,
+    fen: position.fen(),
+    moveNumber,
+    color: played.color,
+    children: []
+  };
+  return {
+    tree: {
+      ...tree,
+      nodes: { ...tree.nodes, [parentId]: { ...parent, children: [...parent.children, nodeId] }, [nodeId]: node },
+      nextId: tree.nextId + 1
+    },
+    nodeId
+  };
+};
+
+// The moves leading to a node, first move first; empty for the root
+export const getPath = (tree: MoveTree, nodeId: string): MoveNode[] => {
+  const path: MoveNode[] = [];
+  for (let node = tree.nodes[nodeId]; node.parentId !== null; node = tree.nodes[node.parentId]) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+// Where the line holding this node leaves its parent line: the closest node, itself included,
+// that is not the first child. Null when the node is on the main line.
+const getBranchStart = (tree: MoveTree, nodeId: string): MoveNode | null =>
+  getPath(tree, nodeId).reverse().find(node => tree.nodes[node.parentId!].children[0] !== node.id) ?? null;
+
+export const isInVariation = (tree: MoveTree, nodeId: string) => getBranchStart(tree, nodeId) !== null;
+
+// Moves the variation holding this node one level up, so it becomes the line it branched from
+export const promoteVariation = (tree: MoveTree, nodeId: string): MoveTree => {
+  const branch = getBranchStart(tree, nodeId);
+  if (!branch) return tree;
+  const parent = tree.nodes[branch.parentId!];
+  return {
+    ...tree,
+    nodes: { ...tree.nodes, [parent.id]: { ...parent, children: [branch.id, ...parent.children.filter(id => id !== branch.id)] } }
+  };
+};
+
+// Drops a node and everything after it; returns the parent so the caller can move there
+export const deleteFromMove = (tree: MoveTree, nodeId: string): { tree: MoveTree; parentId: string } => {
+  const node = tree.nodes[nodeId];
+  if (node.parentId === null) return { tree, parentId: nodeId };
+  const nodes = { ...tree.nodes };
+  const removeSubtree = (id: string) => {
+    nodes[id].children.forEach(removeSubtree);
+    delete nodes[id];
+  };
+  removeSubtree(nodeId);
+  const parent = nodes[node.parentId];
+  nodes[parent.id] = { ...parent, children: parent.children.filter(id => id !== nodeId) };
+  return { tree: { ...tree, nodes }, parentId: parent.id };
+};
+
+// Drops the whole variation holding this node, from the move where it branched off
+export const deleteVariation = (tree: MoveTree, nodeId: string) => {
+  const branch = getBranchStart(tree, nodeId);
+  return branch ? deleteFromMove(tree, branch.id) : { tree, parentId: nodeId };
+};
+
+// Black's moves carry their number only where the flow of the line is broken, e.g. "12... Nf6"
+export const formatTreeMove = (node: MoveNode, showNumber: boolean) =>
+  node.color === 'w' ? `${node.moveNumber}. ${node.san}` : showNumber ? `${node.moveNumber}... ${node.san}` : node.san;
+
+// PGN movetext with every variation in parentheses right after the main line move it replaces
+export const getMovetext = (tree: MoveTree) => {
+  const writeLine = (parentId: string, showNumber: boolean, parts: string[]) => {
+    const [mainId, ...variationIds] = tree.nodes[parentId].children;
+    if (!mainId) return parts;
+    parts.push(formatTreeMove(tree.nodes[mainId], showNumber));
+    for (const variationId of variationIds) {
+      const variation = writeLine(variationId, false, [formatTreeMove(tree.nodes[variationId], true)]);
+      parts.push(`(${variation.join(' ')})`);
+    }
+    return writeLine(mainId, variationIds.length > 0, parts);
+  };
+  return writeLine(tree.rootId, true, []).join(' ');
+};
@@ -0,0 +1,109 @@
+import { Chess } from 'chess.js';
+import { getMovetext, MoveTree } from './moveTree';
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PgnGameInfo {
+  event: string;
+  white: string;
+  black: string;
+  startedAt: Date;
+  result: PgnResult;
+  // How the game ended, e.g. "Black wins by resignation"; left out while it is still going
+  termination?: string;
+  timeControl?: string;
+  // Plies whose move was played after asking for a hint
+  hintedPlies?: number[];
+  // Written as the SetUp and FEN tags when the game did not start from the usual position
+  startFen?: string;
+}
+
+export interface ImportedGame {
+  moves: string[];
+  headers: Record<string, string>;
+  result: PgnResult;
+  startFen?: string;
+}
+
+const PGN_RESULTS: PgnResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// PGN dates are written YYYY.MM.DD
+const formatPgnDate = (date: Date) =>
+  `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}.${String(date.getDate()).padStart(2, '0')}`;
+
+// Game over messages name the winner ("White wins by checkmate!", "Time's up! Black wins") or say it was drawn
+export const getPgnResult = (status: string): PgnResult => {
+  if (/white wins/i.test(status)) return '1-0';
+  if (/black wins/i.test(status)) return '0-1';
+  if (/draw/i.test(status) || /stalemate/i.test(status)) return '1/2-1/2';
+  return '*';
+};
+
+const setHeaders = (game: Chess, info: PgnGameInfo) => {
+  // The Seven Tag Roster comes first, in this order
+  game.setHeader('Event', info.event);
+  game.setHeader('Site', 'ChessSpace');
+  game.setHeader('Date', formatPgnDate(info.startedAt));
+  game.setHeader('Round', '-');
+  game.setHeader('White', info.white);
+  game.setHeader('Black', info.black);
+  game.setHeader('Result', info.result);
+  if (info.timeControl) {
+    game.setHeader('TimeControl', info.timeControl);
+  }
+  if (info.termination) {
+    game.setHeader('Termination', info.termination);
+  }
+};
+
+export const buildPgn = (moves: string[], info: PgnGameInfo) => {
+  const game = new Chess(info.startFen);
+  setHeaders(game, info);
+  moves.forEach((move, ply) => {
+    game.move(move);
+    if (info.hintedPlies?.includes(ply)) {
+      game.setComment('Hint used');
+    }
+  });
+  return game.pgn();
+};
+
+// chess.js cannot write variations, so only the tags come from it and the movetext from the tree
+export const buildTreePgn = (tree: MoveTree, info: PgnGameInfo) => {
+  const game = new Chess(tree.nodes[tree.rootId].fen);
+  setHeaders(game, info);
+  const tags = Object.entries(game.getHeaders())
+    .map(([name, value]) => `[${name} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`);
+  const movetext = getMovetext(tree);
+  return `${tags.join('\n')}\n\n${movetext ? `${movetext} ` : ''}${info.result}`;
+};
+
+// Throws an Error with a message that can be shown to the user as is
+export const parsePgn = (pgn: string): ImportedGame => {
+  if (!pgn.trim()) {
+    throw new Error('Paste a PGN or choose a .pgn file first.');
+  }
+  const game = new Chess();
+  try {
+    game.loadPgn(pgn);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`This PGN could not be read. ${reason}`);
+  }
+  const moves = game.history();
+  if (moves.length === 0) {
+    throw new Error('This PGN has no moves.');
+  }
+  const headers = game.getHeaders();
+  const result = PGN_RESULTS.find(value => value === headers.Result) ?? '*';
+  return { moves, headers, result, startFen: headers.FEN };
+};
+
+export const downloadPgn = (pgn: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,134 @@
+import { Chess, DEFAULT_POSITION, validateFen } from 'chess.js';
+
+export type PieceColor = 'w' | 'b';
+export type PieceType = 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
+export type PlacedPiece = { type: PieceType; color: PieceColor };
+// Ranks 8 to 1 and files a to h, laid out like chess.js board()
+export type Placement = (PlacedPiece | null)[][];
+export type CastlingRight = 'K' | 'Q' | 'k' | 'q';
+
+export interface PositionSetup {
+  placement: Placement;
+  turn: PieceColor;
+  // Rights the user asked for; ones the pieces no longer allow are left out of the FEN
+  castling: CastlingRight[];
+  enPassant: string | null;
+}
+
+export const CASTLING_RIGHTS: CastlingRight[] = ['K', 'Q', 'k', 'q'];
+
+// The king and rook that must still be on their home squares for each right
+const CASTLING_SQUARES: Record<CastlingRight, { king: string; rook: string; color: PieceColor }> = {
+  K: { king: 'e1', rook: 'h1', color: 'w' },
+  Q: { king: 'e1', rook: 'a1', color: 'w' },
+  k: { king: 'e8', rook: 'h8', color: 'b' },
+  q: { king: 'e8', rook: 'a8', color: 'b' }
+};
+
+const PIECE_TYPES = 'pnbrqk';
+
+export const getPiece = (placement: Placement, square: string) =>
+  placement[8 - Number(square[1])][square.charCodeAt(0) - 97];
+
+export const setPiece = (placement: Placement, square: string, piece: PlacedPiece | null): Placement => {
+  const next = placement.map(rank => [...rank]);
+  next[8 - Number(square[1])][square.charCodeAt(0) - 97] = piece;
+  return next;
+};
+
+export const emptyPlacement = (): Placement => Array.from({ length: 8 }, () => Array(8).fill(null));
+
+// Reads the fields the editor cares about; returns null for text that is not a FEN at all.
+// Positions that could never occur (no kings, pawns on the back rank) are still read.
+export const parseFen = (fen: string): PositionSetup | null => {
+  const [pieces, turn = 'w', castling = '-', enPassant = '-'] = fen.trim().split(/\s+/);
+  const ranks = pieces?.split('/') ?? [];
+  if (ranks.length !== 8 || (turn !== 'w' && turn !== 'b')) return null;
+  const placement: Placement = [];
+  for (const rank of ranks) {
+    const row: (PlacedPiece | null)[] = [];
+    for (const symbol of rank) {
+      if (/[1-8]/.test(symbol)) {
+        row.push(...Array(Number(symbol)).fill(null));
+      } else if (PIECE_TYPES.includes(symbol.toLowerCase())) {
+        row.push({ type: symbol.toLowerCase() as PieceType, color: symbol === symbol.toUpperCase() ? 'w' : 'b' });
+      } else {
+        return null;
+      }
+    }
+    if (row.length !== 8) return null;
+    placement.push(row);
+  }
+  return {
+    placement,
+    turn,
+    castling: CASTLING_RIGHTS.filter(right => castling.includes(right)),
+    enPassant: /^[a-h][36]$/.test(enPassant) ? enPassant : null
+  };
+};
+
+export const getAvailableCastling = (placement: Placement): CastlingRight[] =>
+  CASTLING_RIGHTS.filter(right => {
+    const { king, rook, color } = CASTLING_SQUARES[right];
+    const kingPiece = getPiece(placement, king);
+    const rookPiece = getPiece(placement, rook);
+    return kingPiece?.type === 'k' && kingPiece.color === color && rookPiece?.type === 'r' && rookPiece.color === color;
+  });
+
+// Squares behind a pawn that could just have advanced two squares, with nothing standing on them
+export const getEnPassantSquares = (placement: Placement, turn: PieceColor): string[] => {
+  const moverColor = turn === 'w' ? 'b' : 'w';
+  const [pawnRank, targetRank, originRank] = turn === 'w' ? [5, 6, 7] : [4, 3, 2];
+  return 'abcdefgh'.split('')
+    .filter(file => {
+      const pawn = getPiece(placement, `${file}${pawnRank}`);
+      return pawn?.type === 'p' && pawn.color === moverColor &&
+        !getPiece(placement, `${file}${targetRank}`) && !getPiece(placement, `${file}${originRank}`);
+    })
+    .map(file => `${file}${targetRank}`);
+};
+
+export const buildFen = ({ placement, turn, castling, enPassant }: PositionSetup) => {
+  const pieces = placement.map(rank => {
+    let row = '';
+    let empty = 0;
+    for (const piece of rank) {
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty) row += empty;
+      empty = 0;
+      row += piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+    }
+    return empty ? row + empty : row;
+  }).join('/');
+  const available = getAvailableCastling(placement);
+  const rights = castling.filter(right => available.includes(right)).join('') || '-';
+  const target = enPassant && getEnPassantSquares(placement, turn).includes(enPassant) ? enPassant : '-';
+  return `${pieces} ${turn} ${rights} ${target} 0 1`;
+};
+
+export const startingSetup = () => parseFen(DEFAULT_POSITION)!;
+
+// Why a game cannot start from this FEN, worded for the user, or null when it can
+export const getPositionError = (fen: string) => {
+  const validation = validateFen(fen);
+  if (!validation.ok) {
+    const reason = (validation.error ?? 'Invalid FEN').replace(/^Invalid FEN: /, '');
+    return reason.charAt(0).toUpperCase() + reason.slice(1);
+  }
+  const [pieces, turn, castling] = fen.split(' ');
+  for (const color of ['white', 'black']) {
+    const pawns = pieces.split('').filter(symbol => symbol === (color === 'white' ? 'P' : 'p')).length;
+    if (pawns > 8) {
+      return `${color === 'white' ? 'White' : 'Black'} has more than eight pawns`;
+    }
+  }
+  // The side that just moved can never have left its own king in check
+  const waiting = new Chess(`${pieces} ${turn === 'w' ? 'b' : 'w'} ${castling} - 0 1`);
+  if (waiting.isCheck()) {
+    return `${turn === 'w' ? 'Black' : 'White'} is in check but it is ${turn === 'w' ? 'White' : 'Black'} to move`;
+  }
+  return new Chess(fen).isGameOver() ? 'The game is already over in this position' : null;
+};
@@ -1,73 +1,430 @@
+// Scores are always from White's point of view: positive is good for White
+export interface EngineScore {
+  type: 'cp' | 'mate';
+  value: number;
+}
+
+export interface AnalysisLine {
+  multipv: number;
+  depth: number;
+  score: EngineScore;
+  // Principal variation in UCI notation, starting from the analysed position
+  pv: string[];
+}
+
+// How strongly the engine plays: UCI_Elo when set, otherwise just the Skill Level (0-20)
+export interface EngineStrength {
+  elo?: number;
+  skillLevel: number;
+}
+
+// Any combination of UCI "go" limits; the search stops at whichever is reached first
+export interface SearchLimits {
+  depth?: number;
+  movetime?: number;
+  wtime?: number;
+  btime?: number;
+  winc?: number;
+  binc?: number;
+}
+
+export interface SearchRequest {
+  fen: string;
+  limits: SearchLimits;
+  // Full strength unless given
+  strength?: EngineStrength;
+  multiPv?: number;
+  // Aborting removes a queued request or stops a running one; the promise rejects with an AbortError
+  signal?: AbortSignal;
+  // Milliseconds before the search is stopped and answers with what it has so far
+  timeout?: number;
+  // Called with the current top lines every time the search reports progress
+  onInfo?: (lines: AnalysisLine[]) => void;
+}
+
+export interface SearchResult {
+  // Null when the side to move has no legal moves
+  bestMove: string | null;
+  ponder: string | null;
+  // Score of the best line at the deepest completed iteration
+  score: EngineScore | null;
+  lines: AnalysisLine[];
+}
+
+// The Stockfish build running in the worker and how it was configured, for the About dialog
+export interface EngineInfo {
+  build: string;
+  threads: number;
+  // Transposition table size in MB
+  hash: number;
+}
+
+interface EngineBuild {
+  name: string;
+  url: string;
+  threaded: boolean;
+}
+
+interface QueuedSearch {
+  request: SearchRequest;
+  resolve: (result: SearchResult) => void;
+  reject: (error: Error) => void;
+  lines: Map<number, AnalysisLine>;
+  // False while waiting for the worker to become ready
+  started: boolean;
+  // Set once a stop was sent because of an abort, so the bestmove that follows is discarded
+  aborted: boolean;
+  timers: ReturnType<typeof setTimeout>[];
+  removeAbortListener: () => void;
+}
+
+// The no-Worker build is for pages that run the engine on the main thread, which this app never does
+const THREADED_BUILD: EngineBuild = { name: 'Multi-threaded', url: '/stockfish/stockfish-nnue-16.js', threaded: true };
+const THREADED_NO_SIMD_BUILD: EngineBuild = {
+  name: 'Multi-threaded (no SIMD)',
+  url: '/stockfish/stockfish-nnue-16-no-simd.js',
+  threaded: true
+};
+const SINGLE_BUILD: EngineBuild = { name: 'Single-threaded', url: '/stockfish/stockfish-nnue-16-single.js', threaded: false };
+const MAX_THREADS = 8;
+const DEFAULT_TIMEOUT = 60000;
+// How long a build may take to load and answer isready before the next one is tried
+const READY_TIMEOUT = 30000;
+// How long a stopped search may take to report its bestmove before the worker counts as hung
+const STOP_GRACE_PERIOD = 2000;
+const FULL_STRENGTH: EngineStrength = { skillLevel: 20 };
+
+const createAbortError = () => new DOMException('The search was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// A minimal module using a v128 instruction; only browsers with WASM SIMD accept it
+const SIMD_TEST_MODULE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11
+]);
+
+const supportsWasmSimd = () => {
+  try {
+    return WebAssembly.validate(SIMD_TEST_MODULE);
+  } catch {
+    return false;
+  }
+};
+
+// Fastest first; threads need SharedArrayBuffer, which browsers only allow on cross-origin isolated pages
+const getBuildCandidates = (): EngineBuild[] => {
+  const canUseThreads = typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated;
+  const builds: EngineBuild[] = [];
+  if (canUseThreads) {
+    builds.push(supportsWasmSimd() ? THREADED_BUILD : THREADED_NO_SIMD_BUILD);
+  }
+  builds.push(SINGLE_BUILD);
+  return builds;
+};
+
+// Leaves a core for the page itself, and sizes the hash table from the memory the browser reports
+const getEngineSettings = (build: EngineBuild) => {
+  const cores = navigator.hardwareConcurrency || 1;
+  // Only Chromium exposes deviceMemory, in GB
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+  return {
+    threads: build.threaded ? Math.max(1, Math.min(cores - 1, MAX_THREADS)) : 1,
+    hash: Math.max(16, Math.min(memory * 32, build.threaded ? 256 : 64))
+  };
+};
+
+const toGoCommand = (limits: SearchLimits) =>
+  ['go', ...Object.entries(limits).filter(([, value]) => value !== undefined).map(([key, value]) => `${key} ${value}`)].join(' ');
+
+// A UCI client for the Stockfish worker: requests wait their turn, so callers never race each other
 class StockfishManager {
   private worker: Worker | null = null;
+  private builds = getBuildCandidates();
+  private buildIndex = 0;
   private isReady = false;
-  private bestMoveResolver: ((move: string) => void) | null = null;
-  private bestMoveRejecter: ((error: Error) => void) | null = null;
+  private info: EngineInfo | null = null;
+  private ready: Promise<void> = Promise.resolve();
+  private markReady: () => void = () => {};
+  private readyTimer: ReturnType<typeof setTimeout> | null = null;
+  private queue: QueuedSearch[] = [];
+  private current: QueuedSearch | null = null;
 
   constructor() {
     this.initWorker();
   }
 
   private initWorker() {
-    // Use single-threaded version for better compatibility
-    this.worker = new Worker('/stockfish/stockfish-nnue-16-single.js', { type: 'module' });
+    this.isReady = false;
+    this.ready = new Promise(resolve => {
+      this.markReady = resolve;
+    });
+    const build = this.builds[this.buildIndex];
+    const { threads, hash } = getEngineSettings(build);
+    this.info = { build: build.name, threads, hash };
+    this.worker = new Worker(build.url, { type: 'module' });
     this.worker.onmessage = this.handleMessage.bind(this);
     this.worker.onerror = this.handleError.bind(this);
     this.postMessage('uci');
+    this.postMessage(`setoption name Threads value ${threads}`);
+    this.postMessage(`setoption name Hash value ${hash}`);
     this.postMessage('isready');
+    // Some builds hang while loading without ever raising an error
+    this.readyTimer = setTimeout(() => {
+      this.readyTimer = null;
+      this.handleStartupFailure();
+    }, READY_TIMEOUT);
+  }
+
+  private clearReadyTimer() {
+    if (this.readyTimer) {
+      clearTimeout(this.readyTimer);
+      this.readyTimer = null;
+    }
+  }
+
+  // Throws the running search away with the worker; queued searches start on the new one
+  private restartWorker(reason: Error) {
+    console.error('Restarting Stockfish worker:', reason.message);
+    this.clearReadyTimer();
+    this.worker?.terminate();
+    this.worker = null;
+    const failed = this.current;
+    this.current = null;
+    if (failed && !failed.started) {
+      // It never reached the old worker, so it can run on the new one, with a fresh timeout
+      failed.timers.forEach(clearTimeout);
+      failed.timers = [];
+      this.queue.unshift(failed);
+    } else if (failed) {
+      this.settle(failed, () => failed.reject(reason));
+    }
+    this.initWorker();
+    this.runNext();
   }
 
   private handleMessage(event: MessageEvent) {
     const line: string = event.data;
-    console.log('Stockfish message:', line);
 
     if (line === 'readyok') {
+      this.clearReadyTimer();
       this.isReady = true;
+      this.markReady();
+    } else if (line.startsWith('info') && line.includes(' pv ')) {
+      this.handleInfo(line);
     } else if (line.startsWith('bestmove')) {
-      const move = line.split(' ')[1];
-      if (this.bestMoveResolver) {
-        this.bestMoveResolver(move);
-        this.bestMoveResolver = null;
-        this.bestMoveRejecter = null;
-      }
+      this.handleBestMove(line);
+    }
+  }
+
+  // e.g. "info depth 12 seldepth 18 multipv 1 score cp 34 nodes 5120 ... pv e2e4 e7e5 g1f3"
+  private handleInfo(line: string) {
+    const search = this.current;
+    // Bounds come from aspiration windows and are not real scores
+    if (!search || search.aborted || line.includes('lowerbound') || line.includes('upperbound')) {
+      return;
+    }
+    const tokens = line.split(' ');
+    const valueAfter = (key: string) => tokens[tokens.indexOf(key) + 1];
+    const scoreIndex = tokens.indexOf('score');
+    if (scoreIndex === -1) {
+      return;
+    }
+
+    const blackToMove = search.request.fen.split(' ')[1] === 'b';
+    const rawScore = Number(tokens[scoreIndex + 2]);
+    const analysisLine: AnalysisLine = {
+      multipv: tokens.includes('multipv') ? Number(valueAfter('multipv')) : 1,
+      depth: Number(valueAfter('depth')),
+      score: {
+        type: tokens[scoreIndex + 1] === 'mate' ? 'mate' : 'cp',
+        value: blackToMove ? -rawScore : rawScore
+      },
+      pv: tokens.slice(tokens.indexOf('pv') + 1)
+    };
+    search.lines.set(analysisLine.multipv, analysisLine);
+    search.request.onInfo?.(this.getSortedLines(search));
+  }
+
+  // e.g. "bestmove e2e4 ponder e7e5", or "bestmove (none)" when there is no legal move
+  private handleBestMove(line: string) {
+    const search = this.current;
+    if (!search) {
+      return;
     }
+    this.current = null;
+    const tokens = line.split(' ');
+    const bestMove = tokens[1] && tokens[1] !== '(none)' ? tokens[1] : null;
+    const ponder = tokens.includes('ponder') ? tokens[tokens.indexOf('ponder') + 1] : null;
+    const lines = this.getSortedLines(search);
+
+    this.settle(search, () => {
+      if (search.aborted) {
+        search.reject(createAbortError());
+      } else {
+        search.resolve({ bestMove, ponder, score: lines[0]?.score ?? null, lines });
+      }
+    });
+    this.runNext();
+  }
+
+  private getSortedLines(search: QueuedSearch) {
+    return [...search.lines.values()].sort((a, b) => a.multipv - b.multipv);
   }
 
-  private handleError(error: any) {
+  private handleError(error: ErrorEvent) {
     console.error('Raw Stockfish worker error:', error);
-    if (this.bestMoveRejecter) {
-      this.bestMoveRejecter(new Error('Stockfish worker error. See console for details.'));
-      this.bestMoveResolver = null;
-      this.bestMoveRejecter = null;
+    if (this.isReady) {
+      this.restartWorker(new Error('Stockfish worker error. See console for details.'));
+      return;
     }
+    this.handleStartupFailure();
+  }
+
+  // A build that fails or hangs before it is ready is not supported here, so try the next one
+  private handleStartupFailure() {
+    if (this.buildIndex < this.builds.length - 1) {
+      this.buildIndex++;
+      this.restartWorker(new Error(`Stockfish build "${this.builds[this.buildIndex - 1].name}" failed to start.`));
+      return;
+    }
+    this.clearReadyTimer();
+    this.worker?.terminate();
+    this.worker = null;
+    this.info = null;
+    this.rejectAll(new Error('Stockfish could not start in this browser.'));
   }
 
   private postMessage(message: string) {
     this.worker?.postMessage(message);
   }
 
-  public getBestMove(fen: string, depth: number): Promise<string> {
-    return new Promise((resolve, reject) => {
-      if (!this.isReady || this.bestMoveResolver) {
-        return reject(new Error('Stockfish is not ready or is already thinking.'));
+  private settle(search: QueuedSearch, finish: () => void) {
+    search.timers.forEach(clearTimeout);
+    search.removeAbortListener();
+    finish();
+  }
+
+  // Asks the running search to finish; a worker that doesn't answer in time is replaced
+  private stopCurrent(search: QueuedSearch, hungError: Error) {
+    this.postMessage('stop');
+    search.timers.push(setTimeout(() => {
+      if (this.current === search) {
+        this.restartWorker(hungError);
       }
+    }, STOP_GRACE_PERIOD));
+  }
 
-      this.bestMoveResolver = resolve;
-      this.bestMoveRejecter = reject;
+  private async runNext() {
+    if (this.current || this.queue.length === 0) {
+      return;
+    }
+    const search = this.queue.shift()!;
+    this.current = search;
+    const worker = this.worker;
+    // Started before waiting for readyok, so a worker that never gets ready still can't hold the search forever
+    const { timeout = DEFAULT_TIMEOUT } = search.request;
+    search.timers.push(setTimeout(() => {
+      if (this.current !== search) {
+        return;
+      }
+      const timeoutError = new DOMException(`Stockfish did not answer within ${timeout}ms.`, 'TimeoutError');
+      if (search.started) {
+        this.stopCurrent(search, timeoutError);
+        return;
+      }
+      this.current = null;
+      this.settle(search, () => search.reject(timeoutError));
+      this.runNext();
+    }, timeout));
+    await this.ready;
+    // The worker may have been replaced, or the search aborted, while waiting for readyok
+    if (this.current !== search || this.worker !== worker) {
+      return;
+    }
+
+    const { fen, limits, strength = FULL_STRENGTH, multiPv = 1 } = search.request;
+    this.postMessage(`setoption name MultiPV value ${multiPv}`);
+    // Strength options persist in the worker, so every search sets them explicitly
+    this.postMessage(`setoption name UCI_LimitStrength value ${strength.elo !== undefined}`);
+    if (strength.elo !== undefined) {
+      this.postMessage(`setoption name UCI_Elo value ${strength.elo}`);
+    }
+    this.postMessage(`setoption name Skill Level value ${strength.skillLevel}`);
+    this.postMessage(`position fen ${fen}`);
+    this.postMessage(toGoCommand(limits));
+    search.started = true;
+  }
+
+  private abort(search: QueuedSearch) {
+    if (this.current === search && !search.started) {
+      this.current = null;
+      this.settle(search, () => search.reject(createAbortError()));
+      this.runNext();
+      return;
+    }
+    if (this.current === search) {
+      if (!search.aborted) {
+        search.aborted = true;
+        this.stopCurrent(search, createAbortError());
+      }
+      return;
+    }
+    const index = this.queue.indexOf(search);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      this.settle(search, () => search.reject(createAbortError()));
+    }
+  }
 
-      this.postMessage('ucinewgame');
-      this.postMessage(`position fen ${fen}`);
-      this.postMessage(`go depth ${depth}`);
+  public getInfo(): EngineInfo | null {
+    return this.info;
+  }
+
+  public search(request: SearchRequest): Promise<SearchResult> {
+    return new Promise((resolve, reject) => {
+      if (request.signal?.aborted) {
+        return reject(createAbortError());
+      }
+      if (!this.worker) {
+        return reject(new Error('Stockfish is not available in this browser.'));
+      }
+      const search: QueuedSearch = {
+        request,
+        resolve,
+        reject,
+        lines: new Map(),
+        started: false,
+        aborted: false,
+        timers: [],
+        removeAbortListener: () => {}
+      };
+      if (request.signal) {
+        const onAbort = () => this.abort(search);
+        request.signal.addEventListener('abort', onAbort, { once: true });
+        search.removeAbortListener = () => request.signal?.removeEventListener('abort', onAbort);
+      }
+      this.queue.push(search);
+      this.runNext();
     });
   }
 
+  private rejectAll(error: Error) {
+    const pending = [...(this.current ? [this.current] : []), ...this.queue];
+    this.current = null;
+    this.queue = [];
+    pending.forEach(search => this.settle(search, () => search.reject(error)));
+  }
+
   public terminate() {
+    this.clearReadyTimer();
     this.worker?.terminate();
     this.worker = null;
+    this.rejectAll(createAbortError());
   }
 }
 
 const stockfishManager = new StockfishManager();
 
-export const getBestMove = stockfishManager.getBestMove.bind(stockfishManager);
+export const searchPosition = stockfishManager.search.bind(stockfishManager);
+export const getEngineInfo = stockfishManager.getInfo.bind(stockfishManager);
 export const terminateStockfish = stockfishManager.terminate.bind(stockfishManager);
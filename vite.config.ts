@@ -6,6 +6,12 @@ import * as dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
+// Cross-origin isolation lets the page use SharedArrayBuffer, which multi-threaded Stockfish needs
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp'
+};
+
 export default defineConfig({
   server: {
     host: "0.0.0.0", // Allow connections from any IP
@@ -15,15 +21,24 @@ export default defineConfig({
     hmr: {
       host: 'localhost'
     },
+    headers: crossOriginIsolationHeaders,
     proxy: {
       '/socket.io': {
         target: process.env.BACKEND_URL || `http://localhost:${process.env.BACKEND_PORT || '3001'}`,
         changeOrigin: true,
         ws: true,
         secure: false
+      },
+      '/api': {
+        target: process.env.BACKEND_URL || `http://localhost:${process.env.BACKEND_PORT || '3001'}`,
+        changeOrigin: true,
+        secure: false
       }
     }
   },
+  preview: {
+    headers: crossOriginIsolationHeaders
+  },
   plugins: [
     react(),
   ],